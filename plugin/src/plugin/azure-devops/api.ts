@@ -0,0 +1,152 @@
+/**
+ * Azure DevOps Repos API client with authentication and error handling
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import { GitProviderError } from '../git/provider';
+import { encodeBase64 } from '../git/base64';
+
+export const API_VERSION = '7.1';
+
+export class AzureDevOpsAPIError extends GitProviderError {
+  constructor(message: string, status?: number) {
+    super(message, status, 'Azure DevOps');
+    this.name = 'AzureDevOpsAPIError';
+  }
+}
+
+export class AzureDevOpsClient {
+  private config: RepositoryConfig;
+  private baseUrl = 'https://dev.azure.com';
+
+  constructor(config: RepositoryConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get configuration details
+   */
+  getConfig(): RepositoryConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the API path of the repository ("/{organization}/{project}/_apis/git/repositories/{repo}")
+   */
+  getRepositoryPath(): string {
+    if (!this.config.project) {
+      throw new AzureDevOpsAPIError('Azure DevOps project is required');
+    }
+    return `/${encodeURIComponent(this.config.owner || '')}/${encodeURIComponent(this.config.project)}/_apis/git/repositories/${encodeURIComponent(this.config.repo || '')}`;
+  }
+
+  /**
+   * Make an authenticated request to Azure DevOps API
+   */
+  async request<T>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<T> {
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+
+    // Personal access tokens use basic auth with an empty username
+    const authToken = this.config.token;
+    if (!authToken) {
+      throw new AzureDevOpsAPIError('No authentication token provided');
+    }
+
+    const headers: { [name: string]: string } = {
+      Authorization: `Basic ${encodeBase64(`:${authToken}`)}`,
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      ...options.headers,
+    };
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        headers,
+      });
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        const retryAfter = response.headersObject?.['retry-after'];
+        throw new AzureDevOpsAPIError(
+          `Rate limit exceeded. Retry in ${retryAfter ? `${retryAfter} seconds` : 'a few minutes'}`,
+          429
+        );
+      }
+
+      // Parse response body
+      const text = await response.text();
+      let data: any;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        data = text;
+      }
+
+      // Rejected credentials are answered with a sign-in page instead of a 401
+      if (response.status === 203 || (response.ok && typeof data === 'string' && data.trim().startsWith('<'))) {
+        throw new AzureDevOpsAPIError('Authentication failed', 401);
+      }
+
+      // Handle errors
+      if (!response.ok) {
+        const errorMessage = data?.message || `HTTP ${response.status}: ${response.statusText}`;
+        throw new AzureDevOpsAPIError(errorMessage, response.status);
+      }
+
+      return data as T;
+    } catch (error) {
+      if (error instanceof AzureDevOpsAPIError) {
+        throw error;
+      }
+
+      // Network or other errors
+      throw new AzureDevOpsAPIError(
+        error instanceof Error ? error.message : 'Unknown error occurred'
+      );
+    }
+  }
+
+  /**
+   * Get repository information
+   */
+  async getRepository(): Promise<{
+    id: string;
+    name: string;
+    webUrl: string;
+    defaultBranch?: string;
+    project: { name: string };
+  }> {
+    return this.request(`${this.getRepositoryPath()}?api-version=${API_VERSION}`);
+  }
+
+  /**
+   * Get branch information
+   */
+  async getBranch(branch?: string): Promise<{ name: string; objectId: string }> {
+    const branchName = branch || this.config.branch || 'main';
+    const response = await this.request<{ value: Array<{ name: string; objectId: string }> }>(
+      `${this.getRepositoryPath()}/refs?filter=${encodeURIComponent(`heads/${branchName}`)}&api-version=${API_VERSION}`
+    );
+
+    // The filter matches ref name prefixes, so look for the exact branch
+    const ref = response.value.find((r) => r.name === `refs/heads/${branchName}`);
+    if (!ref) {
+      throw new AzureDevOpsAPIError(`Branch not found: ${branchName}`, 404);
+    }
+    return ref;
+  }
+
+  /**
+   * Get authenticated user information
+   */
+  async getUser(): Promise<{ id: string; providerDisplayName: string }> {
+    const response = await this.request<{ authenticatedUser: { id: string; providerDisplayName: string } }>(
+      `/${encodeURIComponent(this.config.owner || '')}/_apis/connectionData`
+    );
+    return response.authenticatedUser;
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Azure DevOps Repos implementation of the git provider
+ * Repositories are addressed by organization, project and repository name
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import {
+  GitProvider,
+  GitFileContent,
+  GitTreeEntry,
+  GitFileChange,
+  ChangeRequest,
+  ChangeRequestOptions,
+  ConnectionTestResult,
+} from '../git/provider';
+import { AzureDevOpsClient, AzureDevOpsAPIError, API_VERSION } from './api';
+
+// Object ID of a ref that doesn't exist yet
+const EMPTY_OBJECT_ID = '0000000000000000000000000000000000000000';
+
+// Pull request descriptions are limited to 4000 characters
+const MAX_DESCRIPTION_LENGTH = 4000;
+
+/**
+ * Get the version query of a branch name or commit SHA
+ */
+function versionQuery(ref: string): string {
+  const type = /^[0-9a-f]{40}$/i.test(ref) ? 'commit' : 'branch';
+  return `versionDescriptor.version=${encodeURIComponent(ref)}&versionDescriptor.versionType=${type}`;
+}
+
+export class AzureDevOpsProvider implements GitProvider {
+  readonly name = 'Azure DevOps';
+  readonly changeRequestName = 'Pull Request';
+  private client: AzureDevOpsClient;
+
+  constructor(config: RepositoryConfig) {
+    this.client = new AzureDevOpsClient(config);
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      // Test 1: Verify token is valid
+      const user = await this.client.getUser();
+
+      // Test 2: Verify repository exists and is accessible
+      const repo = await this.client.getRepository();
+
+      // Test 3: Verify branch exists
+      const branch = await this.client.getBranch();
+
+      // Write access is granted through security namespaces and isn't reported on the repository
+      return {
+        success: true,
+        message: `Connected as ${user.providerDisplayName} to ${repo.project.name}/${repo.name}`,
+        details: {
+          user: user.providerDisplayName,
+          repo: `${repo.project.name}/${repo.name}`,
+          branch: branch.name.replace(/^refs\/heads\//, ''),
+        },
+      };
+    } catch (error) {
+      if (error instanceof AzureDevOpsAPIError) {
+        let message = error.message;
+
+        // Provide more helpful error messages
+        if (error.status === 401) {
+          message = 'Invalid token. Please check your Azure DevOps Personal Access Token.';
+        } else if (error.status === 404) {
+          message = 'Repository or branch not found. Check organization/project/repository or token permissions.';
+        } else if (error.status === 403) {
+          message = 'Access forbidden. Your token may lack the Code (Read & Write) scope.';
+        }
+
+        return {
+          success: false,
+          message,
+        };
+      }
+
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Connection test failed',
+      };
+    }
+  }
+
+  async getBranchHead(branch: string): Promise<string> {
+    return (await this.client.getBranch(branch)).objectId;
+  }
+
+  async readFile(path: string, ref: string): Promise<GitFileContent> {
+    const item = await this.client.request<{ objectId: string; path: string; content: string }>(
+      `${this.client.getRepositoryPath()}/items?path=${encodeURIComponent(`/${path}`)}&includeContent=true&${versionQuery(ref)}&api-version=${API_VERSION}`
+    );
+
+    return {
+      content: (item.content || '').trim(),
+      sha: item.objectId,
+      path,
+    };
+  }
+
+  listTree(path: string, ref: string): Promise<GitTreeEntry[]> {
+    return this.readTree(path, ref, 'OneLevel');
+  }
+
+  async listFiles(ref: string): Promise<string[]> {
+    const entries = await this.readTree('', ref, 'Full');
+    return entries.filter((entry) => entry.type === 'file').map((entry) => entry.path);
+  }
+
+  /**
+   * Read a directory, with everything below it when the recursion level is Full
+   */
+  private async readTree(path: string, ref: string, recursionLevel: 'OneLevel' | 'Full'): Promise<GitTreeEntry[]> {
+    const scopePath = `/${path}`.replace(/\/+$/, '') || '/';
+    const response = await this.client.request<{
+      value: Array<{ path: string; isFolder?: boolean; gitObjectType: 'blob' | 'tree' | 'commit' }>;
+    }>(
+      `${this.client.getRepositoryPath()}/items?scopePath=${encodeURIComponent(scopePath)}&recursionLevel=${recursionLevel}&${versionQuery(ref)}&api-version=${API_VERSION}`
+    );
+
+    // The listing includes the directory itself; submodules ("commit") are neither files nor directories here
+    const entries: GitTreeEntry[] = response.value
+      .filter((item) => item.path !== scopePath && item.gitObjectType !== 'commit')
+      .map((item) => {
+        const itemPath = item.path.replace(/^\//, '');
+        return {
+          name: itemPath.split('/').pop() || itemPath,
+          path: itemPath,
+          type: item.isFolder ? 'dir' : 'file',
+        };
+      });
+
+    console.log(`📋 Azure DevOps items for ${path || 'root'}: ${entries.length} items`);
+    return entries;
+  }
+
+  async createBranch(name: string, fromSha: string): Promise<void> {
+    const response = await this.client.request<{ value: Array<{ success: boolean; customMessage?: string }> }>(
+      `${this.client.getRepositoryPath()}/refs?api-version=${API_VERSION}`,
+      {
+        method: 'POST',
+        body: JSON.stringify([{ name: `refs/heads/${name}`, oldObjectId: EMPTY_OBJECT_ID, newObjectId: fromSha }]),
+      }
+    );
+
+    const update = response.value[0];
+    if (!update || !update.success) {
+      throw new AzureDevOpsAPIError(`Failed to create branch ${name}${update?.customMessage ? `: ${update.customMessage}` : ''}`);
+    }
+  }
+
+  /**
+   * Commit every file in a single push, on top of the branch's current head
+   */
+  async commitFiles(branch: string, files: GitFileChange[], message: string): Promise<void> {
+    const head = await this.getBranchHead(branch);
+
+    // Pushes need to know which files are added and which are edited
+    const existingFiles = new Set(await this.listFiles(head));
+    const changes = files.map((file) => ({
+      changeType: existingFiles.has(file.path) ? 'edit' : 'add',
+      item: { path: `/${file.path}` },
+      newContent: { content: file.content, contentType: 'rawtext' },
+    }));
+
+    await this.client.request(`${this.client.getRepositoryPath()}/pushes?api-version=${API_VERSION}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        refUpdates: [{ name: `refs/heads/${branch}`, oldObjectId: head }],
+        commits: [{ comment: message, changes }],
+      }),
+    });
+  }
+
+  async openChangeRequest(request: ChangeRequestOptions): Promise<ChangeRequest> {
+    const description = request.body.length > MAX_DESCRIPTION_LENGTH
+      ? `${request.body.substring(0, MAX_DESCRIPTION_LENGTH - 3)}...`
+      : request.body;
+
+    const pullRequest = await this.client.request<{ pullRequestId: number; repository: { webUrl: string } }>(
+      `${this.client.getRepositoryPath()}/pullrequests?api-version=${API_VERSION}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          title: request.title,
+          description,
+          sourceRefName: `refs/heads/${request.sourceBranch}`,
+          targetRefName: `refs/heads/${request.targetBranch}`,
+          // Reviewers are identity IDs
+          reviewers: (request.reviewers || []).map((id) => ({ id })),
+        }),
+      }
+    );
+
+    return {
+      url: `${pullRequest.repository.webUrl}/pullrequest/${pullRequest.pullRequestId}`,
+      number: pullRequest.pullRequestId,
+    };
+  }
+}
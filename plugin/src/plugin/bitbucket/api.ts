@@ -0,0 +1,164 @@
+/**
+ * Bitbucket Cloud API client with authentication and error handling
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import { GitProviderError } from '../git/provider';
+import { encodeBase64 } from '../git/base64';
+
+export class BitbucketAPIError extends GitProviderError {
+  constructor(message: string, status?: number) {
+    super(message, status, 'Bitbucket');
+    this.name = 'BitbucketAPIError';
+  }
+}
+
+export class BitbucketClient {
+  private config: RepositoryConfig;
+  private baseUrl = 'https://api.bitbucket.org/2.0';
+
+  constructor(config: RepositoryConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get configuration details
+   */
+  getConfig(): RepositoryConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the API path of the repository ("/repositories/{workspace}/{repo_slug}")
+   */
+  getRepositoryPath(): string {
+    return `/repositories/${encodeURIComponent(this.config.owner || '')}/${encodeURIComponent(this.config.repo || '')}`;
+  }
+
+  /**
+   * Get the Authorization header: app passwords use basic auth with the username,
+   * repository and workspace access tokens are bearer tokens
+   */
+  private getAuthorization(): string {
+    const token = this.config.token;
+    if (!token) {
+      throw new BitbucketAPIError('No authentication token provided');
+    }
+    return this.config.username
+      ? `Basic ${encodeBase64(`${this.config.username}:${token}`)}`
+      : `Bearer ${token}`;
+  }
+
+  /**
+   * Make an authenticated request and return the successful response
+   */
+  private async send(endpoint: string, options: FetchOptions = {}): Promise<FetchResponse> {
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+
+    const headers: { [name: string]: string } = {
+      Authorization: this.getAuthorization(),
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      ...options.headers,
+    };
+
+    let response: FetchResponse;
+    try {
+      response = await fetch(url, {
+        ...options,
+        headers,
+      });
+    } catch (error) {
+      // Network or other errors
+      throw new BitbucketAPIError(
+        error instanceof Error ? error.message : 'Unknown error occurred'
+      );
+    }
+
+    // Handle rate limiting
+    if (response.status === 429) {
+      throw new BitbucketAPIError('Rate limit exceeded. Try again in a few minutes.', 429);
+    }
+
+    // Handle errors - Bitbucket reports them as { type: "error", error: { message } }
+    if (!response.ok) {
+      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+      try {
+        const data = JSON.parse(await response.text());
+        errorMessage = data?.error?.message || errorMessage;
+      } catch {
+        // Keep the status message
+      }
+      throw new BitbucketAPIError(errorMessage, response.status);
+    }
+
+    return response;
+  }
+
+  /**
+   * Make an authenticated request to Bitbucket API
+   * Empty responses (e.g. of commits) are null; use requestText for non-JSON responses
+   */
+  async request<T>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<T> {
+    const text = await (await this.send(endpoint, options)).text();
+    try {
+      return (text ? JSON.parse(text) : null) as T;
+    } catch {
+      throw new BitbucketAPIError(`Expected a JSON response from ${endpoint}`);
+    }
+  }
+
+  /**
+   * Make an authenticated request for a raw file
+   */
+  async requestText(endpoint: string): Promise<string> {
+    return (await this.send(endpoint, { headers: { Accept: '*/*' } })).text();
+  }
+
+  /**
+   * Get repository information
+   */
+  async getRepository(): Promise<{
+    full_name: string;
+    is_private: boolean;
+    mainbranch?: { name: string };
+  }> {
+    return this.request(this.getRepositoryPath());
+  }
+
+  /**
+   * Get branch information
+   */
+  async getBranch(branch?: string): Promise<{
+    name: string;
+    target: { hash: string };
+  }> {
+    const branchName = branch || this.config.branch || 'main';
+    return this.request(`${this.getRepositoryPath()}/refs/branches/${encodeURIComponent(branchName)}`);
+  }
+
+  /**
+   * Get authenticated user information (app passwords only)
+   */
+  async getUser(): Promise<{
+    username: string;
+    display_name: string;
+    account_id: string;
+  }> {
+    return this.request('/user');
+  }
+
+  /**
+   * Get the authenticated user's permission on the repository (app passwords only)
+   */
+  async getPermission(): Promise<'admin' | 'write' | 'read' | undefined> {
+    const fullName = `${this.config.owner}/${this.config.repo}`;
+    const response = await this.request<{ values: Array<{ permission: 'admin' | 'write' | 'read' }> }>(
+      `/user/permissions/repositories?q=${encodeURIComponent(`repository.full_name="${fullName}"`)}`
+    );
+    return response.values[0]?.permission;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Bitbucket Cloud implementation of the git provider
+ * Repositories are addressed by workspace and repository slug
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import {
+  GitProvider,
+  GitFileContent,
+  GitTreeEntry,
+  GitFileChange,
+  ChangeRequest,
+  ChangeRequestOptions,
+  ConnectionTestResult,
+} from '../git/provider';
+import { BitbucketClient, BitbucketAPIError } from './api';
+
+// Largest page the source endpoint returns
+const SOURCE_PAGE_SIZE = 100;
+
+// Directory nesting listed when searching the whole repository
+const MAX_SOURCE_DEPTH = 20;
+
+/**
+ * Encode the segments of a file path for a URL, keeping the slashes
+ */
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+export class BitbucketProvider implements GitProvider {
+  readonly name = 'Bitbucket';
+  readonly changeRequestName = 'Pull Request';
+  private client: BitbucketClient;
+
+  constructor(config: RepositoryConfig) {
+    this.client = new BitbucketClient(config);
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    const config = this.client.getConfig();
+
+    try {
+      // Test 1: Verify credentials - access tokens belong to a repository or workspace, not a user
+      const user = config.username ? (await this.client.getUser()).display_name : 'access token';
+
+      // Test 2: Verify repository exists and is accessible
+      const repo = await this.client.getRepository();
+
+      // Test 3: Verify branch exists
+      const branch = await this.client.getBranch();
+
+      // Check write access (only reported for users)
+      const permission = config.username ? await this.client.getPermission() : undefined;
+
+      return {
+        success: true,
+        message: `Connected as ${user} to ${repo.full_name}`,
+        details: {
+          user,
+          repo: repo.full_name,
+          branch: branch.name,
+          hasWriteAccess: permission ? permission === 'write' || permission === 'admin' : undefined,
+        },
+      };
+    } catch (error) {
+      if (error instanceof BitbucketAPIError) {
+        let message = error.message;
+
+        // Provide more helpful error messages
+        if (error.status === 401) {
+          message = 'Invalid credentials. Please check your Bitbucket username and app password.';
+        } else if (error.status === 404) {
+          message = 'Repository or branch not found. Check workspace/repository or permissions.';
+        } else if (error.status === 403) {
+          message = 'Access forbidden. Your app password may lack repository or pull request permissions.';
+        }
+
+        return {
+          success: false,
+          message,
+        };
+      }
+
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Connection test failed',
+      };
+    }
+  }
+
+  async getBranchHead(branch: string): Promise<string> {
+    return (await this.client.getBranch(branch)).target.hash;
+  }
+
+  /**
+   * Resolve a branch to the commit it points at - the source endpoint doesn't reliably
+   * resolve branch names with slashes, so it is always given a commit hash
+   */
+  private async resolveCommit(ref: string): Promise<string> {
+    return /^[0-9a-f]{40}$/i.test(ref) ? ref : this.getBranchHead(ref);
+  }
+
+  async readFile(path: string, ref: string): Promise<GitFileContent> {
+    const commit = await this.resolveCommit(ref);
+    const content = await this.client.requestText(
+      `${this.client.getRepositoryPath()}/src/${commit}/${encodePath(path)}`
+    );
+
+    // The source endpoint serves the raw file without its blob SHA
+    return {
+      content: content.trim(),
+      sha: '',
+      path,
+    };
+  }
+
+  listTree(path: string, ref: string): Promise<GitTreeEntry[]> {
+    return this.readTree(path, ref, 0);
+  }
+
+  async listFiles(ref: string): Promise<string[]> {
+    const entries = await this.readTree('', ref, MAX_SOURCE_DEPTH);
+    return entries.filter((entry) => entry.type === 'file').map((entry) => entry.path);
+  }
+
+  /**
+   * Read a directory, with the directories below it down to maxDepth
+   */
+  private async readTree(path: string, ref: string, maxDepth: number): Promise<GitTreeEntry[]> {
+    const entries: GitTreeEntry[] = [];
+    const commit = await this.resolveCommit(ref);
+    let url: string | undefined =
+      `${this.client.getRepositoryPath()}/src/${commit}/${path ? `${encodePath(path)}/` : ''}?pagelen=${SOURCE_PAGE_SIZE}${maxDepth > 0 ? `&max_depth=${maxDepth}` : ''}`;
+
+    // Directory listings are paginated with a "next" link
+    while (url) {
+      const page: {
+        values: Array<{ type: 'commit_file' | 'commit_directory'; path: string }>;
+        next?: string;
+      } = await this.client.request(url);
+
+      for (const item of page.values) {
+        entries.push({
+          name: item.path.split('/').pop() || item.path,
+          path: item.path,
+          type: item.type === 'commit_directory' ? 'dir' : 'file',
+        });
+      }
+
+      url = page.next;
+    }
+
+    console.log(`📋 Bitbucket source for ${path || 'root'}: ${entries.length} items`);
+    return entries;
+  }
+
+  async createBranch(name: string, fromSha: string): Promise<void> {
+    await this.client.request(`${this.client.getRepositoryPath()}/refs/branches`, {
+      method: 'POST',
+      body: JSON.stringify({
+        name,
+        target: { hash: fromSha },
+      }),
+    });
+  }
+
+  /**
+   * Commit every file in a single commit: the source endpoint takes each file as a form field named by its path,
+   * with a leading slash so files can't be mistaken for fields like "message"
+   */
+  async commitFiles(branch: string, files: GitFileChange[], message: string): Promise<void> {
+    const fields = [
+      `message=${encodeURIComponent(message)}`,
+      `branch=${encodeURIComponent(branch)}`,
+      ...files.map((file) => `${encodeURIComponent(`/${file.path}`)}=${encodeURIComponent(file.content)}`),
+    ];
+
+    await this.client.request(`${this.client.getRepositoryPath()}/src`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: fields.join('&'),
+    });
+  }
+
+  async openChangeRequest(request: ChangeRequestOptions): Promise<ChangeRequest> {
+    const pullRequest = await this.client.request<{ id: number; links: { html: { href: string } } }>(
+      `${this.client.getRepositoryPath()}/pullrequests`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          title: request.title,
+          description: request.body,
+          source: { branch: { name: request.sourceBranch } },
+          destination: { branch: { name: request.targetBranch } },
+          close_source_branch: true,
+          // Reviewers are account IDs, or UUIDs in braces ("{...}")
+          reviewers: (request.reviewers || []).map((id) => (id.startsWith('{') ? { uuid: id } : { account_id: id })),
+        }),
+      }
+    );
+
+    return { url: pullRequest.links.html.href, number: pullRequest.id };
+  }
+}
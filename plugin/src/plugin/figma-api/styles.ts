@@ -0,0 +1,152 @@
+/**
+ * Figma Styles API wrapper
+ * Handles finding and creating local styles by name
+ */
+
+/**
+ * Get a local text style by name
+ */
+export async function findTextStyle(name: string): Promise<TextStyle | null> {
+  const styles = await figma.getLocalTextStylesAsync();
+  return styles.find((s) => s.name === name) || null;
+}
+
+/**
+ * Get or create a local text style
+ */
+export async function getOrCreateTextStyle(name: string): Promise<{ style: TextStyle; created: boolean }> {
+  const existing = await findTextStyle(name);
+  if (existing) {
+    return { style: existing, created: false };
+  }
+
+  const style = figma.createTextStyle();
+  style.name = name;
+  console.log(`Created text style: ${name}`);
+
+  return { style, created: true };
+}
+
+/**
+ * Get a local effect style by name
+ */
+export async function findEffectStyle(name: string): Promise<EffectStyle | null> {
+  const styles = await figma.getLocalEffectStylesAsync();
+  return styles.find((s) => s.name === name) || null;
+}
+
+/**
+ * Get or create a local effect style
+ */
+export async function getOrCreateEffectStyle(name: string): Promise<{ style: EffectStyle; created: boolean }> {
+  const existing = await findEffectStyle(name);
+  if (existing) {
+    return { style: existing, created: false };
+  }
+
+  const style = figma.createEffectStyle();
+  style.name = name;
+  console.log(`Created effect style: ${name}`);
+
+  return { style, created: true };
+}
+
+/**
+ * Get a local paint style by name
+ */
+export async function findPaintStyle(name: string): Promise<PaintStyle | null> {
+  const styles = await figma.getLocalPaintStylesAsync();
+  return styles.find((s) => s.name === name) || null;
+}
+
+/**
+ * Get or create a local paint style
+ */
+export async function getOrCreatePaintStyle(name: string): Promise<{ style: PaintStyle; created: boolean }> {
+  const existing = await findPaintStyle(name);
+  if (existing) {
+    return { style: existing, created: false };
+  }
+
+  const style = figma.createPaintStyle();
+  style.name = name;
+  console.log(`Created paint style: ${name}`);
+
+  return { style, created: true };
+}
+
+// Font style names for each CSS font weight, most common first
+const FONT_WEIGHT_STYLES: { [weight: number]: string[] } = {
+  100: ['thin', 'hairline'],
+  200: ['extralight', 'ultralight'],
+  300: ['light'],
+  400: ['regular', 'normal', 'book', 'roman'],
+  500: ['medium'],
+  600: ['semibold', 'demibold'],
+  700: ['bold'],
+  800: ['extrabold', 'ultrabold'],
+  900: ['black', 'heavy'],
+};
+
+/**
+ * Normalize a font style name for comparison ("Semi Bold Italic" -> "semibold")
+ */
+function normalizeFontStyle(style: string): string {
+  return style.toLowerCase().replace(/italic|oblique/g, '').replace(/[\s_-]/g, '');
+}
+
+/**
+ * Get the CSS font weight of a font style name, or null if it isn't a known weight
+ */
+export function getFontWeight(fontStyle: string): number | null {
+  const normalized = normalizeFontStyle(fontStyle) || 'regular';
+
+  for (const [weight, names] of Object.entries(FONT_WEIGHT_STYLES)) {
+    if (names.includes(normalized)) {
+      return Number(weight);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if a font style name is italic
+ */
+export function isItalicFontStyle(fontStyle: string): boolean {
+  return /italic|oblique/i.test(fontStyle);
+}
+
+/**
+ * Find and load the font of a family closest to a CSS font weight (number or style name)
+ */
+export async function loadFontForWeight(
+  family: string,
+  weight: number | string,
+  italic: boolean,
+  availableFonts: Font[]
+): Promise<FontName> {
+  const candidates = availableFonts
+    .map((f) => f.fontName)
+    .filter((f) => f.family === family && isItalicFontStyle(f.style) === italic);
+
+  if (candidates.length === 0) {
+    throw new Error(`Font "${family}"${italic ? ' (italic)' : ''} is not available`);
+  }
+
+  const numericWeight = typeof weight === 'number' ? weight : Number(weight);
+  const styleNames = isNaN(numericWeight)
+    ? [normalizeFontStyle(String(weight))]
+    : FONT_WEIGHT_STYLES[Math.round(numericWeight / 100) * 100] || [];
+
+  const fontName = candidates.find((f) => styleNames.includes(normalizeFontStyle(f.style)))
+    || candidates.find((f) => getFontWeight(f.style) === 400)
+    || candidates[0];
+
+  if (!styleNames.includes(normalizeFontStyle(fontName.style))) {
+    console.warn(`⚠️ No ${weight} weight for "${family}", using ${fontName.style}`);
+  }
+
+  await figma.loadFontAsync(fontName);
+  return fontName;
+}
@@ -3,6 +3,8 @@
  * Handles reading and writing Figma variables and collections
  */
 
+import { parseCssColor, formatHex } from '../../shared/colors';
+
 export interface FigmaVariable {
   id: string;
   name: string;
@@ -211,6 +213,244 @@ export async function setVariableForMode(
   return variable;
 }
 
+/**
+ * Find a variable by name, optionally restricted to a collection
+ * Searches every local collection when no collection name is given
+ */
+export async function findVariable(
+  name: string,
+  collectionName?: string
+): Promise<Variable | null> {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const candidates = collectionName
+    ? collections.filter((c) => c.name === collectionName)
+    : collections;
+
+  for (const collection of candidates) {
+    const variable = await getVariableByName(collection, name);
+    if (variable) {
+      return variable;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Local variables indexed by name, so many lookups don't each walk every collection
+ */
+export interface VariableLookup {
+  byCollection: Map<string, Map<string, Variable>>; // Collection name -> variable name -> variable
+  byName: Map<string, Variable>; // First variable with the name, in collection order like findVariable
+}
+
+/**
+ * Index the local variables by collection and name
+ */
+export async function buildVariableLookup(): Promise<VariableLookup> {
+  const lookup: VariableLookup = { byCollection: new Map(), byName: new Map() };
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+
+  for (const collection of collections) {
+    const variables = lookup.byCollection.get(collection.name) || new Map<string, Variable>();
+    lookup.byCollection.set(collection.name, variables);
+
+    for (const variable of await getVariablesInCollection(collection)) {
+      if (!variables.has(variable.name)) {
+        variables.set(variable.name, variable);
+      }
+      if (!lookup.byName.has(variable.name)) {
+        lookup.byName.set(variable.name, variable);
+      }
+    }
+  }
+
+  return lookup;
+}
+
+/**
+ * Find a variable in a lookup, optionally restricted to a collection
+ */
+export function lookupVariable(
+  lookup: VariableLookup,
+  name: string,
+  collectionName?: string
+): Variable | null {
+  const variables = collectionName ? lookup.byCollection.get(collectionName) : lookup.byName;
+  return (variables && variables.get(name)) || null;
+}
+
+/**
+ * Point a variable at another variable in a specific mode (VARIABLE_ALIAS value)
+ */
+export function setVariableAliasForMode(
+  variable: Variable,
+  modeId: string,
+  target: Variable
+): void {
+  const alias = figma.variables.createVariableAlias(target);
+  variable.setValueForMode(modeId, alias);
+  console.log(`Aliased variable ${variable.name} to ${target.name}`);
+}
+
+/**
+ * Value of a variable in one mode
+ */
+export interface VariableModeValue {
+  variablePath: string; // "Collection/variable/path"
+  mode?: string; // Mode name (mapped), undefined for the default mode
+  variableId: string;
+  modeId: string;
+  resolvedType: VariableResolvedDataType;
+  value: VariableValue;
+}
+
+/**
+ * Read the value of every local variable in every mode.
+ * Mode names are mapped through modeMapping (Figma mode name -> repository brand name).
+ * Deprecated variables are left out, like on export - they are no longer synced.
+ */
+export async function getVariableModeValues(
+  modeMapping: { [figmaModeName: string]: string } = {}
+): Promise<VariableModeValue[]> {
+  const values: VariableModeValue[] = [];
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+
+  for (const collection of collections) {
+    const variables = await getVariablesInCollection(collection);
+
+    for (const variable of variables) {
+      if (variable.name.startsWith(`${DEPRECATED_GROUP}/`)) {
+        continue;
+      }
+
+      for (const mode of collection.modes) {
+        if (!(mode.modeId in variable.valuesByMode)) {
+          continue;
+        }
+
+        values.push({
+          variablePath: `${collection.name}/${variable.name}`,
+          mode: mode.modeId === collection.defaultModeId ? undefined : modeMapping[mode.name] || mode.name,
+          variableId: variable.id,
+          modeId: mode.modeId,
+          resolvedType: variable.resolvedType,
+          value: variable.valuesByMode[mode.modeId],
+        });
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Write back previously read variable values, e.g. to keep local changes after an import
+ */
+export async function restoreVariableModeValues(values: VariableModeValue[]): Promise<number> {
+  let restored = 0;
+
+  for (const entry of values) {
+    const variable = await figma.variables.getVariableByIdAsync(entry.variableId);
+    if (variable) {
+      variable.setValueForMode(entry.modeId, entry.value);
+      restored++;
+    }
+  }
+
+  return restored;
+}
+
+/**
+ * Group that pruned variables are moved into when they are deprecated instead of deleted
+ */
+export const DEPRECATED_GROUP = '_deprecated';
+
+/**
+ * Number of layers and styles bound to a variable
+ */
+export interface VariableUsage {
+  layers: number;
+  styles: number;
+}
+
+/**
+ * Collect the ids of all variable aliases in a (nested) boundVariables, paints or effects value
+ */
+function collectAliasIds(value: any, ids: Set<string>): void {
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+
+  if (value.type === 'VARIABLE_ALIAS' && typeof value.id === 'string') {
+    ids.add(value.id);
+    return;
+  }
+
+  for (const nested of Object.values(value)) {
+    collectAliasIds(nested, ids);
+  }
+}
+
+/**
+ * Count the layers and local styles that reference each of the given variables
+ */
+export async function getVariableUsages(variableIds: string[]): Promise<Map<string, VariableUsage>> {
+  const usages = new Map<string, VariableUsage>(
+    variableIds.map((id) => [id, { layers: 0, styles: 0 }])
+  );
+
+  if (variableIds.length === 0) {
+    return usages;
+  }
+
+  // Pages are loaded on demand with dynamic page access
+  await figma.loadAllPagesAsync();
+
+  const nodes = figma.root.findAll((node) => 'boundVariables' in node && !!node.boundVariables);
+  for (const node of nodes) {
+    const ids = new Set<string>();
+    collectAliasIds((node as SceneNode).boundVariables, ids);
+    for (const id of ids) {
+      const usage = usages.get(id);
+      if (usage) {
+        usage.layers++;
+      }
+    }
+  }
+
+  const styles: BaseStyle[] = [
+    ...(await figma.getLocalPaintStylesAsync()),
+    ...(await figma.getLocalTextStylesAsync()),
+    ...(await figma.getLocalEffectStylesAsync()),
+    ...(await figma.getLocalGridStylesAsync()),
+  ];
+  for (const style of styles) {
+    const ids = new Set<string>();
+    collectAliasIds(style.boundVariables, ids);
+    collectAliasIds((style as PaintStyle).paints, ids);
+    collectAliasIds((style as EffectStyle).effects, ids);
+    collectAliasIds((style as GridStyle).layoutGrids, ids);
+    for (const id of ids) {
+      const usage = usages.get(id);
+      if (usage) {
+        usage.styles++;
+      }
+    }
+  }
+
+  return usages;
+}
+
+/**
+ * Move a variable into the deprecated group, keeping its id so bindings survive
+ */
+export function deprecateVariable(variable: Variable): void {
+  const name = variable.name;
+  variable.name = `${DEPRECATED_GROUP}/${name}`;
+  console.log(`Deprecated variable: ${name} -> ${variable.name}`);
+}
+
 /**
  * Delete a variable by name
  */
@@ -270,60 +510,26 @@ export async function deleteCollection(name: string): Promise<boolean> {
 }
 
 /**
- * Parse color string to RGBA object
+ * Parse any CSS color (hex, named, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch(), color())
+ * Colors outside of sRGB are gamut mapped
  */
 export function parseColor(colorString: string): RGBA | null {
-  // Remove whitespace
-  const color = colorString.trim();
-
-  // Hex format: #RGB or #RRGGBB or #RRGGBBAA
-  if (color.startsWith('#')) {
-    let hex = color.slice(1);
-
-    // Expand shorthand (#RGB -> #RRGGBB)
-    if (hex.length === 3) {
-      hex = hex
-        .split('')
-        .map((c) => c + c)
-        .join('');
-    }
-
-    // Parse RRGGBB or RRGGBBAA
-    if (hex.length === 6 || hex.length === 8) {
-      const r = parseInt(hex.slice(0, 2), 16) / 255;
-      const g = parseInt(hex.slice(2, 4), 16) / 255;
-      const b = parseInt(hex.slice(4, 6), 16) / 255;
-      const a = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
-
-      return { r, g, b, a };
-    }
-  }
-
-  // RGB/RGBA format: rgb(r, g, b) or rgba(r, g, b, a)
-  if (!color || typeof color !== 'string') {
-    console.error('⚠️  Invalid color value provided to parseColor:', color);
+  if (!colorString || typeof colorString !== 'string') {
+    console.error('⚠️  Invalid color value provided to parseColor:', colorString);
     return null;
   }
 
-  const rgbMatch = color.match(
-    /rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)/
-  );
-  if (rgbMatch) {
-    const r = parseInt(rgbMatch[1]) / 255;
-    const g = parseInt(rgbMatch[2]) / 255;
-    const b = parseInt(rgbMatch[3]) / 255;
-    const a = rgbMatch[4] ? parseFloat(rgbMatch[4]) : 1;
-
-    return { r, g, b, a };
-  }
-
-  return null;
+  return parseCssColor(colorString);
 }
 
+// Font size rem and em dimensions are relative to when no base font size is configured
+export const DEFAULT_BASE_FONT_SIZE = 16;
+
 /**
- * Parse dimension string to number (strips units)
+ * Parse dimension string to number
+ * rem and em are converted to pixels, other units (px, pt, %) are stripped
  */
-export function parseDimension(dimensionString: string): number {
+export function parseDimension(dimensionString: string, baseFontSize: number = DEFAULT_BASE_FONT_SIZE): number {
   if (!dimensionString || typeof dimensionString !== 'string') {
     console.error('⚠️  Invalid dimension string provided to parseDimension:', dimensionString);
     return 0;
@@ -331,10 +537,12 @@ export function parseDimension(dimensionString: string): number {
 
   const dimension = dimensionString.trim();
 
-  // Extract numeric value (handles px, rem, em, pt, etc.)
-  const match = dimension.match(/^([\d.]+)/);
+  // Extract numeric value and unit (handles px, rem, em, pt, etc.)
+  const match = dimension.match(/^(-?[\d.]+)\s*([a-z%]*)$/i);
   if (match) {
-    return parseFloat(match[1]);
+    const value = parseFloat(match[1]);
+    const unit = match[2].toLowerCase();
+    return unit === 'rem' || unit === 'em' ? value * baseFontSize : value;
   }
 
   // If no match, try parsing as number
@@ -342,26 +550,137 @@ export function parseDimension(dimensionString: string): number {
   return isNaN(num) ? 0 : num;
 }
 
+/**
+ * Get the unit of a dimension ("1.5rem" -> "rem"), or undefined for numbers and unitless values
+ */
+export function getDimensionUnit(value: any): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const match = value.trim().match(/^-?[\d.]+\s*([a-z%]+)$/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Format a pixel value in a token's original unit; values without a unit stay numbers
+ */
+export function formatDimension(
+  value: number,
+  unit: string | undefined,
+  baseFontSize: number = DEFAULT_BASE_FONT_SIZE
+): string | number {
+  if (!unit) {
+    return value;
+  }
+
+  const converted = unit === 'rem' || unit === 'em' ? value / baseFontSize : value;
+  return `${Math.round(converted * 10000) / 10000}${unit}`;
+}
+
+// Plugin data keys of how a variable's tokens were written, by mode id
+const UNITS_KEY = 'units';
+const COLOR_SOURCES_KEY = 'colorSources';
+const VALUE_SOURCES_KEY = 'valueSources';
+
+/**
+ * A token value that was computed on pull (expression, color modifier) and the value it gave in Figma
+ */
+export interface VariableValueSource {
+  value: string; // "{spacing.base} * 2"
+  resolved: string | number | boolean; // Comparable Figma value the token resolved to
+}
+
+/**
+ * Get per-mode plugin data stored as JSON under a key
+ */
+function getModePluginData(variable: Variable, key: string, modeId: string): string | undefined {
+  const stored = variable.getPluginData(key);
+  return stored ? JSON.parse(stored)[modeId] : undefined;
+}
+
+/**
+ * Store per-mode plugin data as JSON under a key; undefined removes the mode's entry
+ */
+function setModePluginData(variable: Variable, key: string, modeId: string, value: string | undefined): void {
+  const stored = variable.getPluginData(key);
+  const values = stored ? JSON.parse(stored) : {};
+
+  if (value) {
+    values[modeId] = value;
+  } else {
+    delete values[modeId];
+  }
+
+  variable.setPluginData(key, Object.keys(values).length > 0 ? JSON.stringify(values) : '');
+}
+
+/**
+ * Get the unit the token of a variable was written in for a mode
+ */
+export function getVariableUnit(variable: Variable, modeId: string): string | undefined {
+  return getModePluginData(variable, UNITS_KEY, modeId);
+}
+
+/**
+ * Remember the unit the token of a variable was written in for a mode, so push can write it back
+ */
+export function setVariableUnit(variable: Variable, modeId: string, unit: string | undefined): void {
+  setModePluginData(variable, UNITS_KEY, modeId, unit);
+}
+
+/**
+ * Get the color value the token of a variable was written as for a mode ("oklch(...)", "rebeccapurple")
+ */
+export function getVariableColorSource(variable: Variable, modeId: string): string | undefined {
+  return getModePluginData(variable, COLOR_SOURCES_KEY, modeId);
+}
+
+/**
+ * Remember the color value the token of a variable was written as for a mode,
+ * so push can write the color back in the same syntax
+ */
+export function setVariableColorSource(variable: Variable, modeId: string, source: string | undefined): void {
+  setModePluginData(variable, COLOR_SOURCES_KEY, modeId, source);
+}
+
+/**
+ * Get the computed token value a variable was pulled from for a mode
+ */
+export function getVariableValueSource(variable: Variable, modeId: string): VariableValueSource | undefined {
+  const stored = getModePluginData(variable, VALUE_SOURCES_KEY, modeId);
+  return stored ? JSON.parse(stored) : undefined;
+}
+
+/**
+ * Remember the computed token value a variable was pulled from for a mode,
+ * so push can write the expression back while the variable keeps its result
+ */
+export function setVariableValueSource(variable: Variable, modeId: string, source: VariableValueSource | undefined): void {
+  setModePluginData(variable, VALUE_SOURCES_KEY, modeId, source ? JSON.stringify(source) : undefined);
+}
+
 /**
  * Convert RGBA to hex string
  */
 export function rgbaToHex(rgba: RGBA): string {
-  const r = Math.round(rgba.r * 255)
-    .toString(16)
-    .padStart(2, '0');
-  const g = Math.round(rgba.g * 255)
-    .toString(16)
-    .padStart(2, '0');
-  const b = Math.round(rgba.b * 255)
-    .toString(16)
-    .padStart(2, '0');
-
-  if (rgba.a < 1) {
-    const a = Math.round(rgba.a * 255)
-      .toString(16)
-      .padStart(2, '0');
-    return `#${r}${g}${b}${a}`;
+  return formatHex(rgba);
+}
+
+/**
+ * Get a comparable representation of a variable value (colors as hex)
+ */
+export function getComparableValue(
+  value: VariableValue,
+  type: VariableResolvedDataType
+): string | number | boolean {
+  if (type === 'COLOR' && typeof value === 'object' && 'r' in value) {
+    return rgbaToHex(value as RGBA);
+  }
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
   }
 
-  return `#${r}${g}${b}`;
+  return JSON.stringify(value);
 }
@@ -0,0 +1,97 @@
+/**
+ * Base64 encoding for file contents
+ * The Figma plugin sandbox has no atob/btoa or TextDecoder, so bytes are converted by hand
+ */
+
+const CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decode base64 to the bytes it encodes, ignoring line breaks and whitespace
+ */
+function decodeBase64Bytes(base64: string): number[] {
+  // Remove whitespace and padding
+  const input = base64.replace(/\s/g, '').replace(/=+$/, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < input.length; i += 4) {
+    const encoded1 = CHARS.indexOf(input.charAt(i));
+    const encoded2 = CHARS.indexOf(input.charAt(i + 1));
+    const encoded3 = i + 2 < input.length ? CHARS.indexOf(input.charAt(i + 2)) : -1;
+    const encoded4 = i + 3 < input.length ? CHARS.indexOf(input.charAt(i + 3)) : -1;
+
+    const bitmap = (encoded1 << 18) | (encoded2 << 12) | (Math.max(encoded3, 0) << 6) | Math.max(encoded4, 0);
+
+    bytes.push((bitmap >> 16) & 255);
+    if (encoded3 !== -1) bytes.push((bitmap >> 8) & 255);
+    if (encoded4 !== -1) bytes.push(bitmap & 255);
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode UTF-8 bytes to text; invalid sequences become U+FFFD like TextDecoder does
+ */
+function decodeUtf8(bytes: number[]): string {
+  let result = '';
+
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    // Length of the sequence and the payload bits of its first byte
+    const length = byte < 0x80 ? 1 : byte >= 0xf0 && byte < 0xf8 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc2 ? 2 : 0;
+    if (length === 0) {
+      result += '\ufffd';
+      i++;
+      continue;
+    }
+
+    let codePoint = length === 1 ? byte : byte & (0xff >> (length + 1));
+    let valid = i + length <= bytes.length;
+    for (let j = 1; valid && j < length; j++) {
+      valid = (bytes[i + j] & 0xc0) === 0x80;
+      codePoint = (codePoint << 6) | (bytes[i + j] & 0x3f);
+    }
+
+    // Overlong encodings, surrogates and code points past U+10FFFF are invalid too
+    const minimum = [0, 0, 0x80, 0x800, 0x10000][length];
+    if (!valid || codePoint < minimum || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+      result += '\ufffd';
+      i++;
+      continue;
+    }
+
+    result += String.fromCodePoint(codePoint);
+    i += length;
+  }
+
+  return result;
+}
+
+/**
+ * Decode base64 file content to text - repository files are UTF-8
+ */
+export function decodeBase64(base64: string): string {
+  return decodeUtf8(decodeBase64Bytes(base64));
+}
+
+/**
+ * Encode text to base64, one byte per character (Latin-1, as used for credentials)
+ */
+export function encodeBase64(text: string): string {
+  let result = '';
+
+  for (let i = 0; i < text.length; i += 3) {
+    const a = text.charCodeAt(i);
+    const b = i + 1 < text.length ? text.charCodeAt(i + 1) : 0;
+    const c = i + 2 < text.length ? text.charCodeAt(i + 2) : 0;
+
+    const bitmap = (a << 16) | (b << 8) | c;
+
+    result += CHARS.charAt((bitmap >> 18) & 63);
+    result += CHARS.charAt((bitmap >> 12) & 63);
+    result += i + 1 < text.length ? CHARS.charAt((bitmap >> 6) & 63) : '=';
+    result += i + 2 < text.length ? CHARS.charAt(bitmap & 63) : '=';
+  }
+
+  return result;
+}
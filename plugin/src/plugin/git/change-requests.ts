@@ -1,114 +1,82 @@
 /**
- * GitHub Pull Request creation and management
+ * Change request (pull/merge request) creation and changelogs
  */
 
-import { GitHubClient } from './api';
-import { getRef, createBranch, updateFile } from './files';
+import { GitProvider, GitFileChange } from './provider';
 
-export interface CreatePROptions {
+export interface CreateChangeRequestOptions {
   title: string;
   body: string;
   baseBranch: string;
-  files: Array<{
-    path: string;
-    content: string;
-  }>;
+  files: GitFileChange[];
+  reviewers?: string[];
 }
 
-export interface CreatePRResult {
+export interface CreateChangeRequestResult {
   success: boolean;
-  prUrl?: string;
-  prNumber?: number;
+  url?: string;
+  number?: number;
   message: string;
 }
 
 /**
- * Create a pull request with file changes
+ * Commit file changes to a new branch and open a change request for it
  */
-export async function createPullRequest(
-  client: GitHubClient,
-  options: CreatePROptions
-): Promise<CreatePRResult> {
-  const config = client.getConfig();
-
+export async function createChangeRequest(
+  provider: GitProvider,
+  options: CreateChangeRequestOptions
+): Promise<CreateChangeRequestResult> {
   try {
-    // Step 1: Get base branch reference
-    const baseRef = await getRef(client, options.baseBranch);
-    const baseSha = baseRef.object.sha;
+    // Step 1: Get base branch head
+    const baseSha = await provider.getBranchHead(options.baseBranch);
 
     // Step 2: Create new branch with timestamp
     const timestamp = Date.now();
     const newBranchName = `figma-tokens-${timestamp}`;
 
-    await createBranch(client, newBranchName, baseSha);
-    console.log(`Created branch: ${newBranchName}`);
-
-    // Step 3: Get current file SHAs and update files on new branch
-    for (const file of options.files) {
-      try {
-        // Get current file SHA (if exists)
-        let fileSha = '';
-        try {
-          const fileContent = await client.request<any>(
-            `/repos/${config.owner}/${config.repo}/contents/${file.path}?ref=${options.baseBranch}`
-          );
-          fileSha = fileContent.sha;
-        } catch (error) {
-          // File doesn't exist, that's ok - we'll create it
-          console.log(`File ${file.path} doesn't exist, will create new`);
-        }
-
-        // Update or create file on new branch
-        await updateFile(client, {
-          path: file.path,
-          content: file.content,
-          message: `Update ${file.path} from Figma`,
-          sha: fileSha,
-          branch: newBranchName,
-        });
-
-        console.log(`Updated ${file.path} on branch ${newBranchName}`);
-      } catch (error) {
-        console.error(`Failed to update ${file.path}:`, error);
-        throw new Error(
-          `Failed to update ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    }
+    await provider.createBranch(newBranchName, baseSha);
+    console.log(`🌿 Created branch: ${newBranchName}`);
 
-    // Step 4: Create pull request
-    const prResponse = await client.request<any>(
-      `/repos/${config.owner}/${config.repo}/pulls`,
-      {
-        method: 'POST',
-        body: JSON.stringify({
-          title: options.title,
-          body: options.body,
-          head: newBranchName,
-          base: options.baseBranch,
-        }),
-      }
-    );
+    // Step 3: Commit the files to the new branch
+    await provider.commitFiles(newBranchName, options.files, generateCommitMessage(options.title, options.files));
+    console.log(`📁 Committed ${options.files.length} file(s) to ${newBranchName}`);
+
+    // Step 4: Open the change request
+    const changeRequest = await provider.openChangeRequest({
+      title: options.title,
+      body: options.body,
+      sourceBranch: newBranchName,
+      targetBranch: options.baseBranch,
+      reviewers: options.reviewers,
+    });
 
     return {
       success: true,
-      prUrl: prResponse.html_url,
-      prNumber: prResponse.number,
-      message: `Pull request created: ${prResponse.html_url}`,
+      url: changeRequest.url,
+      number: changeRequest.number,
+      message: `${provider.changeRequestName} created: ${changeRequest.url}`,
     };
   } catch (error) {
-    console.error('Failed to create PR:', error);
+    console.error(`Failed to create ${provider.changeRequestName}:`, error);
     return {
       success: false,
-      message: `Failed to create pull request: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      message: `Failed to create ${provider.changeRequestName.toLowerCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
   }
 }
 
 /**
- * Generate PR title from changes
+ * Generate the commit message: the change request title, then the files it touches
+ */
+function generateCommitMessage(title: string, files: GitFileChange[]): string {
+  const lines = [title, '', 'Updated files:', ...files.map((file) => `- ${file.path}`)];
+  return lines.join('\n');
+}
+
+/**
+ * Generate change request title from changes
  */
-export function generatePRTitle(changes: {
+export function generateChangeRequestTitle(changes: {
   added: string[];
   modified: string[];
   removed: string[];
@@ -135,9 +103,9 @@ export function generatePRTitle(changes: {
 }
 
 /**
- * Generate PR description with changelog
+ * Generate change request description with changelog
  */
-export function generatePRBody(
+export function generateChangeRequestBody(
   changes: {
     added: string[];
     modified: string[];
@@ -152,7 +120,7 @@ export function generatePRBody(
 
   lines.push('## Summary');
   lines.push('');
-  lines.push('This PR updates design tokens exported from Figma variables.');
+  lines.push('This change updates design tokens exported from Figma variables.');
   lines.push('');
   lines.push(`- **Collections processed:** ${options.collectionsProcessed}`);
   lines.push(`- **Variables processed:** ${options.variablesProcessed}`);
@@ -0,0 +1,105 @@
+/**
+ * Glob matching of repository file paths
+ * Supports "**" (any number of directories), "*", "?" and braces ("{a,b}")
+ */
+
+// Characters with a meaning in regular expressions that are literal in globs
+const REGEXP_SPECIAL = /[.+^$()|[\]\\]/;
+
+/**
+ * Check if a path contains glob syntax rather than naming a single file
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Remove a leading "./" or "/" - repository paths are relative to the root
+ */
+export function normalizePattern(pattern: string): string {
+  return pattern.trim().replace(/^\.?\/+/, '');
+}
+
+/**
+ * Compile a glob pattern into a regular expression matching whole paths
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const glob = normalizePattern(pattern);
+  // Unbalanced braces are literal characters
+  const useBraces = hasBalancedBraces(glob);
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      const startsSegment = i === 0 || glob[i - 1] === '/';
+      if (startsSegment && glob[i + 2] === '/') {
+        // "**/" matches zero or more directories, so "a/**/b" matches "a/b"
+        source += '(?:[^/]+/)*';
+        i += 2;
+      } else if (startsSegment && i + 2 === glob.length) {
+        // A trailing "**" matches everything below
+        source += '.*';
+        i += 1;
+      } else {
+        // "**" inside a name is just "*"
+        source += '[^/]*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && useBraces) {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      // Escaped glob character
+      i++;
+      source += REGEXP_SPECIAL.test(glob[i]) || /[*?{},]/.test(glob[i]) ? `\\${glob[i]}` : glob[i];
+    } else {
+      source += REGEXP_SPECIAL.test(char) || char === '{' || char === '}' ? `\\${char}` : char;
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check that every "{" is closed by a "}", ignoring escaped ones
+ */
+function hasBalancedBraces(glob: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === '\\') {
+      i++;
+    } else if (glob[i] === '{') {
+      depth++;
+    } else if (glob[i] === '}' && --depth < 0) {
+      return false;
+    }
+  }
+  return depth === 0;
+}
+
+/**
+ * Create a matcher for include patterns; patterns starting with "!" and exclude patterns
+ * remove paths again, whatever their order
+ */
+export function createPathMatcher(patterns: string[], excludePatterns: string[] = []): (path: string) => boolean {
+  const includes = patterns.filter((pattern) => !pattern.startsWith('!')).map(globToRegExp);
+  const excludes = [
+    ...patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => pattern.substring(1)),
+    ...excludePatterns,
+  ].map(globToRegExp);
+
+  return (path: string) =>
+    includes.some((regexp) => regexp.test(path)) && !excludes.some((regexp) => regexp.test(path));
+}
@@ -0,0 +1,91 @@
+/**
+ * Git hosting provider abstraction
+ * Pull and push talk to the token repository through a GitProvider, so it can be hosted on any supported host
+ */
+
+export class GitProviderError extends Error {
+  status?: number;
+  provider: string;
+
+  constructor(message: string, status?: number, provider: string = 'Git') {
+    super(message);
+    this.name = 'GitProviderError';
+    this.status = status;
+    this.provider = provider;
+  }
+}
+
+/**
+ * Check if an error is a provider's "not found" response
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return error instanceof GitProviderError && error.status === 404;
+}
+
+export interface GitFileContent {
+  content: string; // Decoded content
+  sha: string; // Blob SHA
+  path: string;
+}
+
+export interface GitTreeEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'dir';
+}
+
+export interface GitFileChange {
+  path: string;
+  content: string; // Plain text
+}
+
+export interface ChangeRequestOptions {
+  title: string;
+  body: string;
+  sourceBranch: string;
+  targetBranch: string;
+  reviewers?: string[]; // Reviewer IDs in the host's format
+}
+
+export interface ChangeRequest {
+  url: string;
+  number: number;
+}
+
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+  details?: {
+    user: string;
+    repo: string;
+    branch: string;
+    hasWriteAccess?: boolean; // Unknown when the host can't report it
+  };
+}
+
+/**
+ * A repository on a git host: reading files and trees, committing to branches and opening change requests
+ */
+export interface GitProvider {
+  /** Host name shown in messages ("GitHub") */
+  readonly name: string;
+  /** What the host calls a change request ("Pull Request", "Merge Request") */
+  readonly changeRequestName: string;
+
+  /** Check the credentials, repository and branch */
+  testConnection(): Promise<ConnectionTestResult>;
+  /** Get the commit SHA a branch points at */
+  getBranchHead(branch: string): Promise<string>;
+  /** Read a file at a branch or commit */
+  readFile(path: string, ref: string): Promise<GitFileContent>;
+  /** List the files and directories of a directory ("" for the root) */
+  listTree(path: string, ref: string): Promise<GitTreeEntry[]>;
+  /** List the paths of every file in the repository, in as few requests as the host allows */
+  listFiles(ref: string): Promise<string[]>;
+  /** Create a branch at a commit */
+  createBranch(name: string, fromSha: string): Promise<void>;
+  /** Create or update files on a branch in a single commit */
+  commitFiles(branch: string, files: GitFileChange[], message: string): Promise<void>;
+  /** Open a change request to merge a branch into another, requesting reviewers */
+  openChangeRequest(request: ChangeRequestOptions): Promise<ChangeRequest>;
+}
@@ -0,0 +1,26 @@
+/**
+ * Git provider selection
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import { GitProvider } from './provider';
+import { GitHubProvider } from '../github/provider';
+import { GitLabProvider } from '../gitlab/provider';
+import { BitbucketProvider } from '../bitbucket/provider';
+import { AzureDevOpsProvider } from '../azure-devops/provider';
+
+/**
+ * Create the provider for the host a configuration points at (GitHub unless set)
+ */
+export function createGitProvider(config: RepositoryConfig): GitProvider {
+  switch (config.provider) {
+    case 'gitlab':
+      return new GitLabProvider(config);
+    case 'bitbucket':
+      return new BitbucketProvider(config);
+    case 'azure-devops':
+      return new AzureDevOpsProvider(config);
+    default:
+      return new GitHubProvider(config);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Token file discovery and fetching through a git provider
+ */
+
+import { GitProvider, GitFileContent, isNotFoundError } from './provider';
+import { isGlobPattern, normalizePattern, createPathMatcher } from './glob';
+
+/**
+ * Get multiple token files from repository
+ */
+export async function getTokenFiles(
+  provider: GitProvider,
+  paths: string[],
+  ref: string
+): Promise<Array<GitFileContent & { error?: string }>> {
+  const results = await Promise.all(
+    paths.map(async (path) => {
+      try {
+        return await provider.readFile(path, ref);
+      } catch (error) {
+        return {
+          content: '',
+          sha: '',
+          path,
+          error: error instanceof Error ? error.message : 'Failed to fetch file',
+        };
+      }
+    })
+  );
+
+  return results;
+}
+
+/**
+ * Validate token file paths exist in repository
+ */
+export async function validateTokenPaths(
+  provider: GitProvider,
+  paths: string[],
+  ref: string
+): Promise<{
+  valid: boolean;
+  results: Array<{
+    path: string;
+    exists: boolean;
+    error?: string;
+  }>;
+}> {
+  const results = await Promise.all(
+    paths.map(async (path) => {
+      try {
+        await provider.readFile(path, ref);
+        return { path, exists: true };
+      } catch (error) {
+        if (isNotFoundError(error)) {
+          return { path, exists: false, error: 'File not found' };
+        }
+        return {
+          path,
+          exists: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    })
+  );
+
+  return {
+    valid: results.every((r) => r.exists),
+    results,
+  };
+}
+
+/**
+ * Search for token files using glob patterns
+ * Patterns starting with "!" and exclude patterns leave matching files out. The repository is
+ * listed once, and only when a pattern needs it; plain paths are used as they are
+ */
+export async function findTokenFiles(
+  provider: GitProvider,
+  patterns: string[],
+  ref: string,
+  excludePatterns: string[] = []
+): Promise<string[]> {
+  const includes = patterns.map(normalizePattern).filter((pattern) => pattern && !pattern.startsWith('!'));
+  const matches = createPathMatcher(
+    patterns.map(normalizePattern).filter(Boolean),
+    excludePatterns.map(normalizePattern).filter(Boolean)
+  );
+
+  console.log(`🔍 Searching for token files with patterns: ${patterns.join(', ')}`);
+
+  // Direct file paths don't need a listing, but can still be excluded
+  const foundFiles = includes.filter((pattern) => !isGlobPattern(pattern) && matches(pattern));
+
+  if (includes.some(isGlobPattern)) {
+    // A failed listing is thrown: an incomplete file list would look like deleted token files
+    const allFiles = await provider.listFiles(ref);
+    console.log(`📋 Found ${allFiles.length} files in the repository`);
+
+    const matchingFiles = allFiles.filter(matches);
+    console.log(`📄 ${matchingFiles.length} files match: ${matchingFiles.join(', ')}`);
+
+    foundFiles.push(...matchingFiles);
+  }
+
+  const uniqueFiles = [...new Set(foundFiles)];
+  console.log(`✅ Final result: ${uniqueFiles.length} unique files found: ${uniqueFiles.join(', ')}`);
+
+  return uniqueFiles;
+}
@@ -8,32 +8,35 @@ export interface GitHubError {
   documentation_url?: string;
 }
 
-export class GitHubAPIError extends Error {
-  status?: number;
+import { RepositoryConfig } from '../../shared/types';
+import { GitProviderError } from '../git/provider';
+import { getGitHubUrls } from '../../shared/git-providers';
+
+export class GitHubAPIError extends GitProviderError {
   documentation_url?: string;
 
   constructor(message: string, status?: number, documentation_url?: string) {
-    super(message);
+    super(message, status, 'GitHub');
     this.name = 'GitHubAPIError';
-    this.status = status;
     this.documentation_url = documentation_url;
   }
 }
 
-import { GitHubConfig } from '../../shared/types';
-
 export class GitHubClient {
-  private config: GitHubConfig;
-  private baseUrl = 'https://api.github.com';
+  private config: RepositoryConfig;
+  private baseUrl: string;
 
-  constructor(config: GitHubConfig) {
+  constructor(config: RepositoryConfig) {
     this.config = config;
+
+    // api.github.com, or the API of the GitHub Enterprise Server instance the repository lives on
+    this.baseUrl = getGitHubUrls(config).apiBaseUrl;
   }
 
   /**
    * Get configuration details
    */
-  getConfig(): GitHubConfig {
+  getConfig(): RepositoryConfig {
     return this.config;
   }
 
@@ -119,6 +122,32 @@ export class GitHubClient {
     }
   }
 
+  /**
+   * Make an authenticated request for a raw file, e.g. a contents download_url
+   */
+  async requestText(url: string): Promise<string> {
+    const authToken = this.getAuthToken();
+    if (!authToken) {
+      throw new GitHubAPIError('No authentication token provided');
+    }
+
+    let response: FetchResponse;
+    try {
+      response = await fetch(url.startsWith('http') ? url : `${this.baseUrl}${url}`, {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+    } catch (error) {
+      throw new GitHubAPIError(
+        error instanceof Error ? error.message : 'Unknown error occurred'
+      );
+    }
+
+    if (!response.ok) {
+      throw new GitHubAPIError(`HTTP ${response.status}: ${response.statusText}`, response.status);
+    }
+    return response.text();
+  }
+
   /**
    * Get repository information
    */
@@ -225,42 +254,4 @@ export class GitHubClient {
       };
     }
   }
-
-  /**
-   * Validate token file paths exist in repository
-   */
-  async validateTokenPaths(paths: string[]): Promise<{
-    valid: boolean;
-    results: Array<{
-      path: string;
-      exists: boolean;
-      error?: string;
-    }>;
-  }> {
-    const results = await Promise.all(
-      paths.map(async (path) => {
-        try {
-          // Try to get file contents to verify it exists
-          await this.request(
-            `/repos/${this.config.owner}/${this.config.repo}/contents/${path}?ref=${this.config.branch || 'main'}`
-          );
-          return { path, exists: true };
-        } catch (error) {
-          if (error instanceof GitHubAPIError && error.status === 404) {
-            return { path, exists: false, error: 'File not found' };
-          }
-          return {
-            path,
-            exists: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          };
-        }
-      })
-    );
-
-    return {
-      valid: results.every((r) => r.exists),
-      results,
-    };
-  }
 }
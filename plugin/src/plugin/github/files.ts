@@ -3,6 +3,8 @@
  */
 
 import { GitHubClient } from './api';
+import { GitFileContent } from '../git/provider';
+import { decodeBase64 } from '../git/base64';
 
 export interface FileContent {
   content: string; // Base64 encoded
@@ -13,18 +15,13 @@ export interface FileContent {
   encoding: string;
 }
 
-export interface DecodedFileContent {
-  content: string; // Decoded content
-  sha: string;
-  path: string;
-}
+export type DecodedFileContent = GitFileContent;
 
-export interface UpdateFileRequest {
+export interface TreeEntry {
   path: string;
-  content: string; // Plain text, will be base64 encoded
-  message: string;
-  sha: string; // Required for updates
-  branch: string;
+  mode: '100644'; // Regular file
+  type: 'blob';
+  sha: string;
 }
 
 /**
@@ -60,12 +57,13 @@ export async function getFileContents(
     console.log(`📄 File metadata only, attempting download_url:`, fileData.download_url);
 
     if (fileData.download_url) {
-      // Use raw file URL to get content
-      const rawResponse = await fetch(fileData.download_url);
-      if (!rawResponse.ok) {
-        throw new Error(`Failed to fetch raw content for ${path}: ${rawResponse.status} ${rawResponse.statusText}`);
+      // Use raw file URL to get content - authenticated, since Enterprise Server raw URLs of private repositories need it
+      let rawContent: string;
+      try {
+        rawContent = await client.requestText(fileData.download_url);
+      } catch (error) {
+        throw new Error(`Failed to fetch raw content for ${path}: ${error instanceof Error ? error.message : error}`);
       }
-      const rawContent = await rawResponse.text();
 
       return {
         content: rawContent,
@@ -85,44 +83,7 @@ export async function getFileContents(
   const contentString = typeof fileData.content === 'string' ? fileData.content : String(fileData.content);
 
   try {
-    // Clean base64 string
-    const cleanBase64 = contentString.replace(/\n/g, '').replace(/\s/g, '');
-
-    // Custom base64 decoder for Figma plugin environment
-    function decodeBase64(base64: string): string {
-      const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
-      let result = '';
-      let i = 0;
-
-      // Remove padding
-      base64 = base64.replace(/=+$/, '');
-
-      while (i < base64.length) {
-        const encoded1 = chars.indexOf(base64.charAt(i++));
-        const encoded2 = chars.indexOf(base64.charAt(i++));
-        const encoded3 = chars.indexOf(base64.charAt(i++));
-        const encoded4 = chars.indexOf(base64.charAt(i++));
-
-        const bitmap = (encoded1 << 18) | (encoded2 << 12) | (encoded3 << 6) | encoded4;
-
-        result += String.fromCharCode((bitmap >> 16) & 255);
-        if (encoded3 !== -1) result += String.fromCharCode((bitmap >> 8) & 255);
-        if (encoded4 !== -1) result += String.fromCharCode(bitmap & 255);
-      }
-
-      return result;
-    }
-
-    // Decode base64 content
-    let decodedContent: string;
-
-    if (typeof atob !== 'undefined') {
-      // Browser environment
-      decodedContent = atob(cleanBase64);
-    } else {
-      // Figma plugin environment - use custom decoder
-      decodedContent = decodeBase64(cleanBase64);
-    }
+    let decodedContent = decodeBase64(contentString);
 
     // Clean up the decoded content to remove null bytes and other invisible characters
     // that might be causing "unexpected data at the end" errors
@@ -174,89 +135,92 @@ export async function getFileContents(
 }
 
 /**
- * Get multiple token files from repository
+ * Create a blob from file content
  */
-export async function getTokenFiles(
+export async function createBlob(
   client: GitHubClient,
-  paths: string[],
-  ref?: string
-): Promise<Array<DecodedFileContent & { error?: string }>> {
-  const results = await Promise.all(
-    paths.map(async (path) => {
-      try {
-        return await getFileContents(client, path, ref);
-      } catch (error) {
-        return {
-          content: '',
-          sha: '',
-          path,
-          error: error instanceof Error ? error.message : 'Failed to fetch file',
-        };
-      }
-    })
-  );
+  content: string
+): Promise<{ sha: string }> {
+  const config = client.getConfig();
 
-  return results;
+  return client.request(`/repos/${config.owner}/${config.repo}/git/blobs`, {
+    method: 'POST',
+    body: JSON.stringify({
+      content,
+      encoding: 'utf-8',
+    }),
+  });
 }
 
 /**
- * Update a file in the GitHub repository
+ * Create a tree from entries on top of an existing tree
  */
+export async function createTree(
+  client: GitHubClient,
+  baseTreeSha: string,
+  entries: TreeEntry[]
+): Promise<{ sha: string }> {
+  const config = client.getConfig();
+
+  return client.request(`/repos/${config.owner}/${config.repo}/git/trees`, {
+    method: 'POST',
+    body: JSON.stringify({
+      base_tree: baseTreeSha,
+      tree: entries,
+    }),
+  });
+}
+
 /**
- * Encode text to base64 (Figma plugin compatible)
+ * Get a commit, including the SHA of its tree
  */
-function encodeBase64(text: string): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
-  let result = '';
-  let i = 0;
-
-  while (i < text.length) {
-    const a = text.charCodeAt(i++);
-    const b = i < text.length ? text.charCodeAt(i++) : 0;
-    const c = i < text.length ? text.charCodeAt(i++) : 0;
-
-    const bitmap = (a << 16) | (b << 8) | c;
-
-    result += chars.charAt((bitmap >> 18) & 63);
-    result += chars.charAt((bitmap >> 12) & 63);
-    result += i - 2 < text.length ? chars.charAt((bitmap >> 6) & 63) : '=';
-    result += i - 1 < text.length ? chars.charAt(bitmap & 63) : '=';
-  }
+export async function getCommit(
+  client: GitHubClient,
+  sha: string
+): Promise<{ sha: string; tree: { sha: string } }> {
+  const config = client.getConfig();
 
-  return result;
+  return client.request(`/repos/${config.owner}/${config.repo}/git/commits/${sha}`);
 }
 
-export async function updateFile(
+/**
+ * Create a commit of a tree with a single parent
+ */
+export async function createCommit(
   client: GitHubClient,
-  request: UpdateFileRequest
-): Promise<{ commit: { sha: string }; content: { sha: string } }> {
+  message: string,
+  treeSha: string,
+  parentSha: string
+): Promise<{ sha: string }> {
   const config = client.getConfig();
 
-  // Encode content to base64 using our custom encoder
-  let encodedContent: string;
-
-  if (typeof btoa !== 'undefined') {
-    // Browser environment
-    encodedContent = btoa(request.content);
-  } else {
-    // Figma plugin environment - use custom encoder
-    encodedContent = encodeBase64(request.content);
-  }
+  return client.request(`/repos/${config.owner}/${config.repo}/git/commits`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message,
+      tree: treeSha,
+      parents: [parentSha],
+    }),
+  });
+}
 
-  const body = {
-    message: request.message,
-    content: encodedContent,
-    sha: request.sha,
-    branch: request.branch,
-  };
+/**
+ * Move a branch to a commit (fast-forward only)
+ */
+export async function updateRef(
+  client: GitHubClient,
+  branchName: string,
+  sha: string
+): Promise<{ ref: string; object: { sha: string } }> {
+  const config = client.getConfig();
 
-  return client.request(
-    `/repos/${config.owner}/${config.repo}/contents/${request.path}`,
-    {
-      method: 'PUT',
-      body: JSON.stringify(body),
-    }
-  );
+  return client.request(`/repos/${config.owner}/${config.repo}/git/refs/heads/${branchName}`, {
+    method: 'PATCH',
+    body: JSON.stringify({
+      sha,
+      force: false,
+    }),
+  });
 }
 
 /**
@@ -292,6 +256,26 @@ export async function createBranch(
   });
 }
 
+/**
+ * Get a tree, with every entry below it when recursive
+ * Trees over GitHub's size limit come back truncated
+ */
+export async function getTree(
+  client: GitHubClient,
+  treeish: string,
+  recursive = false
+): Promise<{
+  sha: string;
+  tree: Array<{ path: string; type: 'blob' | 'tree' | 'commit'; sha: string }>;
+  truncated: boolean;
+}> {
+  const config = client.getConfig();
+
+  return client.request(
+    `/repos/${config.owner}/${config.repo}/git/trees/${treeish}${recursive ? '?recursive=1' : ''}`
+  );
+}
+
 /**
  * List files in a directory
  */
@@ -322,95 +306,3 @@ export async function listDirectory(
     sha: item.sha || 'unknown',
   }));
 }
-
-/**
- * Search for token files using glob patterns
- * Note: This is a simple implementation - for production, consider using GitHub's search API
- */
-export async function findTokenFiles(
-  client: GitHubClient,
-  patterns: string[],
-  ref?: string
-): Promise<string[]> {
-  const foundFiles: string[] = [];
-
-  console.log(`🔍 Searching for token files with patterns: ${patterns.join(', ')}`);
-
-  for (const pattern of patterns) {
-    console.log(`📂 Processing pattern: ${pattern}`);
-
-    if (pattern.includes('*')) {
-      if (pattern.includes('**')) {
-        // Recursive pattern like 'tokens/**/*.json'
-        const basePath = pattern.split('**')[0].replace(/\/$/, '');
-        console.log(`🔄 Recursive search in: ${basePath || 'root'}`);
-
-        try {
-          const allFiles = await findFilesRecursively(client, basePath || '', ref);
-          console.log(`📋 Found ${allFiles.length} total files in ${basePath || 'root'}`);
-
-          const jsonFiles = allFiles.filter((f) => f.endsWith('.json'));
-          console.log(`📄 Found ${jsonFiles.length} JSON files: ${jsonFiles.join(', ')}`);
-
-          foundFiles.push(...jsonFiles);
-        } catch (error) {
-          console.error(`❌ Failed recursive search in ${basePath}:`, error);
-        }
-      } else {
-        // Simple pattern like 'tokens/*.json'
-        const dir = pattern.split('*')[0].replace(/\/$/, '');
-        console.log(`📁 Listing directory: ${dir || 'root'}`);
-
-        try {
-          const files = await listDirectory(client, dir, ref);
-          console.log(`📋 Found ${files.length} items in ${dir || 'root'}:`, files.map(f => `${f.name} (${f.type})`));
-
-          const jsonFiles = files
-            .filter((f) => f.type === 'file' && f.name.endsWith('.json'))
-            .map((f) => f.path);
-          console.log(`📄 Filtered to ${jsonFiles.length} JSON files: ${jsonFiles.join(', ')}`);
-
-          foundFiles.push(...jsonFiles);
-        } catch (error) {
-          console.error(`❌ Failed to list directory ${dir}:`, error);
-        }
-      }
-    } else {
-      // Direct file path
-      console.log(`📌 Adding direct file path: ${pattern}`);
-      foundFiles.push(pattern);
-    }
-  }
-
-  const uniqueFiles = [...new Set(foundFiles)];
-  console.log(`✅ Final result: ${uniqueFiles.length} unique files found: ${uniqueFiles.join(', ')}`);
-
-  return uniqueFiles;
-}
-
-/**
- * Recursively find all files in a directory and subdirectories
- */
-async function findFilesRecursively(
-  client: GitHubClient,
-  basePath: string,
-  ref?: string,
-  allFiles: string[] = []
-): Promise<string[]> {
-  try {
-    const items = await listDirectory(client, basePath, ref);
-
-    for (const item of items) {
-      if (item.type === 'file') {
-        allFiles.push(item.path);
-      } else if (item.type === 'dir') {
-        // Recursively search subdirectories
-        await findFilesRecursively(client, item.path, ref, allFiles);
-      }
-    }
-  } catch (error) {
-    console.warn(`Failed to list directory ${basePath}:`, error);
-  }
-
-  return allFiles;
-}
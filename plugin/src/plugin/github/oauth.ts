@@ -1,3 +1,5 @@
+import { GITHUB_WEB_URL } from '../../shared/git-providers';
+
 export interface DeviceCodeResponse {
   device_code: string;
   user_code: string;
@@ -20,11 +22,12 @@ export interface AccessTokenError {
 
 export class GitHubOAuth {
   private static readonly CLIENT_ID = 'your_github_app_client_id'; // Replace with actual client ID
-  private static readonly DEVICE_CODE_URL = 'https://github.com/login/device/code';
-  private static readonly ACCESS_TOKEN_URL = 'https://github.com/login/oauth/access_token';
+  private static readonly DEVICE_CODE_PATH = '/login/device/code';
+  private static readonly ACCESS_TOKEN_PATH = '/login/oauth/access_token';
 
-  static async startDeviceFlow(): Promise<DeviceCodeResponse> {
-    const response = await fetch(GitHubOAuth.DEVICE_CODE_URL, {
+  // webBaseUrl is github.com or a GitHub Enterprise Server URL, which serves the device flow from its own host
+  static async startDeviceFlow(webBaseUrl: string = GITHUB_WEB_URL): Promise<DeviceCodeResponse> {
+    const response = await fetch(`${webBaseUrl}${GitHubOAuth.DEVICE_CODE_PATH}`, {
       method: 'POST',
       headers: {
         'Accept': 'application/json',
@@ -43,11 +46,11 @@ export class GitHubOAuth {
     return response.json();
   }
 
-  static async pollForToken(deviceCode: string, interval: number = 5): Promise<string> {
+  static async pollForToken(deviceCode: string, interval: number = 5, webBaseUrl: string = GITHUB_WEB_URL): Promise<string> {
     return new Promise((resolve, reject) => {
       const poll = async () => {
         try {
-          const response = await fetch(GitHubOAuth.ACCESS_TOKEN_URL, {
+          const response = await fetch(`${webBaseUrl}${GitHubOAuth.ACCESS_TOKEN_PATH}`, {
             method: 'POST',
             headers: {
               'Accept': 'application/json',
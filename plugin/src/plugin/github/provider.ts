@@ -0,0 +1,149 @@
+/**
+ * GitHub implementation of the git provider
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import {
+  GitProvider,
+  GitFileContent,
+  GitTreeEntry,
+  GitFileChange,
+  ChangeRequest,
+  ChangeRequestOptions,
+  ConnectionTestResult,
+} from '../git/provider';
+import { GitHubClient, GitHubAPIError } from './api';
+import {
+  getFileContents,
+  listDirectory,
+  getRef,
+  getTree,
+  createBranch,
+  getCommit,
+  createBlob,
+  createTree,
+  createCommit,
+  updateRef,
+  TreeEntry,
+} from './files';
+
+export class GitHubProvider implements GitProvider {
+  readonly name = 'GitHub';
+  readonly changeRequestName = 'Pull Request';
+  private client: GitHubClient;
+
+  constructor(config: RepositoryConfig) {
+    this.client = new GitHubClient(config);
+  }
+
+  testConnection(): Promise<ConnectionTestResult> {
+    return this.client.testConnection();
+  }
+
+  async getBranchHead(branch: string): Promise<string> {
+    return (await getRef(this.client, branch)).object.sha;
+  }
+
+  readFile(path: string, ref: string): Promise<GitFileContent> {
+    return getFileContents(this.client, path, ref);
+  }
+
+  async listTree(path: string, ref: string): Promise<GitTreeEntry[]> {
+    const items = await listDirectory(this.client, path, ref);
+    return items.map(({ name, path, type }) => ({ name, path, type }));
+  }
+
+  async listFiles(ref: string): Promise<string[]> {
+    const tree = await getTree(this.client, ref, true);
+    if (tree.truncated) {
+      // Too large to list in one request - read it directory by directory instead
+      console.warn(`⚠️ Repository tree at ${ref} is too large to list at once, listing it per directory`);
+      return this.listTreeFiles(tree.sha, '');
+    }
+    return tree.tree.filter((item) => item.type === 'blob').map((item) => item.path);
+  }
+
+  /**
+   * List the files below a tree, one request per directory
+   */
+  private async listTreeFiles(treeSha: string, prefix: string): Promise<string[]> {
+    const tree = await getTree(this.client, treeSha);
+    if (tree.truncated) {
+      throw new GitHubAPIError(`Directory ${prefix || '/'} has too many entries to list`);
+    }
+
+    const files: string[] = [];
+
+    for (const item of tree.tree) {
+      if (item.type === 'blob') {
+        files.push(`${prefix}${item.path}`);
+      } else if (item.type === 'tree') {
+        files.push(...(await this.listTreeFiles(item.sha, `${prefix}${item.path}/`)));
+      }
+    }
+
+    return files;
+  }
+
+  async createBranch(name: string, fromSha: string): Promise<void> {
+    await createBranch(this.client, name, fromSha);
+  }
+
+  /**
+   * Commit every file in a single commit through the Git Data API: the branch only moves once
+   * every blob, the tree and the commit exist, so a failed push leaves it untouched
+   */
+  async commitFiles(branch: string, files: GitFileChange[], message: string): Promise<void> {
+    const headSha = await this.getBranchHead(branch);
+    const headCommit = await getCommit(this.client, headSha);
+
+    const entries: TreeEntry[] = await Promise.all(
+      files.map(async (file) => ({
+        path: file.path,
+        mode: '100644' as const,
+        type: 'blob' as const,
+        sha: (await createBlob(this.client, file.content)).sha,
+      }))
+    );
+
+    const tree = await createTree(this.client, headCommit.tree.sha, entries);
+    const commit = await createCommit(this.client, message, tree.sha, headSha);
+    await updateRef(this.client, branch, commit.sha);
+
+    console.log(`📦 Committed ${files.length} file(s) to ${branch} as ${commit.sha.substring(0, 7)}`);
+  }
+
+  async openChangeRequest(request: ChangeRequestOptions): Promise<ChangeRequest> {
+    const config = this.client.getConfig();
+
+    const prResponse = await this.client.request<any>(
+      `/repos/${config.owner}/${config.repo}/pulls`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          title: request.title,
+          body: request.body,
+          head: request.sourceBranch,
+          base: request.targetBranch,
+        }),
+      }
+    );
+
+    // Reviewers are requested once the pull request exists; a failed request keeps the pull request
+    if (request.reviewers && request.reviewers.length > 0) {
+      try {
+        await this.client.request(
+          `/repos/${config.owner}/${config.repo}/pulls/${prResponse.number}/requested_reviewers`,
+          {
+            method: 'POST',
+            body: JSON.stringify({ reviewers: request.reviewers }),
+          }
+        );
+      } catch (error) {
+        console.warn(`⚠️ Could not request reviewers ${request.reviewers.join(', ')}:`, error);
+      }
+    }
+
+    return { url: prResponse.html_url, number: prResponse.number };
+  }
+}
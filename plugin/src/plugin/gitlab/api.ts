@@ -0,0 +1,142 @@
+/**
+ * GitLab API client with authentication and error handling
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import { GitProviderError } from '../git/provider';
+
+export class GitLabAPIError extends GitProviderError {
+  constructor(message: string, status?: number) {
+    super(message, status, 'GitLab');
+    this.name = 'GitLabAPIError';
+  }
+}
+
+export class GitLabClient {
+  private config: RepositoryConfig;
+  private baseUrl = 'https://gitlab.com/api/v4';
+
+  constructor(config: RepositoryConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get configuration details
+   */
+  getConfig(): RepositoryConfig {
+    return this.config;
+  }
+
+  /**
+   * Get the API path of the project: its numeric ID, or its URL-encoded "group/project" path
+   */
+  getProjectPath(): string {
+    const project = this.config.projectId || `${this.config.owner}/${this.config.repo}`;
+    return `/projects/${encodeURIComponent(project)}`;
+  }
+
+  /**
+   * Make an authenticated request to GitLab API
+   */
+  async request<T>(
+    endpoint: string,
+    options: FetchOptions = {}
+  ): Promise<T> {
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+
+    // Personal, project and group access tokens all authenticate with PRIVATE-TOKEN
+    const authToken = this.config.token;
+    if (!authToken) {
+      throw new GitLabAPIError('No authentication token provided');
+    }
+
+    const headers: { [name: string]: string } = {
+      'PRIVATE-TOKEN': authToken,
+      'Content-Type': 'application/json',
+      ...options.headers,
+    };
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        headers,
+      });
+
+      // Handle rate limiting
+      if (response.status === 429) {
+        const resetTime = response.headersObject?.['ratelimit-reset'];
+        throw new GitLabAPIError(
+          `Rate limit exceeded. Resets at ${resetTime ? new Date(parseInt(resetTime) * 1000).toLocaleString() : 'unknown'}`,
+          429
+        );
+      }
+
+      // Parse response body
+      const text = await response.text();
+      let data: any;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        data = text;
+      }
+
+      // Handle errors - GitLab reports them as { message } or { error }, and validation errors as objects
+      if (!response.ok) {
+        const detail = data?.message || data?.error;
+        const errorMessage = detail
+          ? typeof detail === 'string' ? detail : JSON.stringify(detail)
+          : `HTTP ${response.status}: ${response.statusText}`;
+        throw new GitLabAPIError(errorMessage, response.status);
+      }
+
+      return data as T;
+    } catch (error) {
+      if (error instanceof GitLabAPIError) {
+        throw error;
+      }
+
+      // Network or other errors
+      throw new GitLabAPIError(
+        error instanceof Error ? error.message : 'Unknown error occurred'
+      );
+    }
+  }
+
+  /**
+   * Get project information
+   */
+  async getProject(): Promise<{
+    id: number;
+    path_with_namespace: string;
+    default_branch: string;
+    permissions?: {
+      project_access: { access_level: number } | null;
+      group_access: { access_level: number } | null;
+    };
+  }> {
+    return this.request(this.getProjectPath());
+  }
+
+  /**
+   * Get branch information
+   */
+  async getBranch(branch?: string): Promise<{
+    name: string;
+    commit: { id: string };
+    protected: boolean;
+  }> {
+    const branchName = branch || this.config.branch || 'main';
+    return this.request(`${this.getProjectPath()}/repository/branches/${encodeURIComponent(branchName)}`);
+  }
+
+  /**
+   * Get authenticated user information
+   */
+  async getUser(): Promise<{
+    username: string;
+    id: number;
+    name: string;
+  }> {
+    return this.request('/user');
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * GitLab implementation of the git provider
+ * Projects are addressed by ID or "group/project" path, and changes are opened as merge requests
+ */
+
+import { RepositoryConfig } from '../../shared/types';
+import {
+  GitProvider,
+  GitFileContent,
+  GitTreeEntry,
+  GitFileChange,
+  ChangeRequest,
+  ChangeRequestOptions,
+  ConnectionTestResult,
+} from '../git/provider';
+import { decodeBase64 } from '../git/base64';
+import { GitLabClient, GitLabAPIError } from './api';
+
+// Developer access and above can push branches
+const DEVELOPER_ACCESS_LEVEL = 30;
+
+// Largest page the tree endpoint returns
+const TREE_PAGE_SIZE = 100;
+
+export class GitLabProvider implements GitProvider {
+  readonly name = 'GitLab';
+  readonly changeRequestName = 'Merge Request';
+  private client: GitLabClient;
+
+  constructor(config: RepositoryConfig) {
+    this.client = new GitLabClient(config);
+  }
+
+  async testConnection(): Promise<ConnectionTestResult> {
+    try {
+      // Test 1: Verify token is valid
+      const user = await this.client.getUser();
+
+      // Test 2: Verify project exists and is accessible
+      const project = await this.client.getProject();
+
+      // Test 3: Verify branch exists
+      const branch = await this.client.getBranch();
+
+      // Check write access - project and group membership both grant access
+      const accessLevel = Math.max(
+        project.permissions?.project_access?.access_level || 0,
+        project.permissions?.group_access?.access_level || 0
+      );
+
+      return {
+        success: true,
+        message: `Connected as ${user.username} to ${project.path_with_namespace}`,
+        details: {
+          user: user.username,
+          repo: project.path_with_namespace,
+          branch: branch.name,
+          hasWriteAccess: accessLevel >= DEVELOPER_ACCESS_LEVEL,
+        },
+      };
+    } catch (error) {
+      if (error instanceof GitLabAPIError) {
+        let message = error.message;
+
+        // Provide more helpful error messages
+        if (error.status === 401) {
+          message = 'Invalid token. Please check your GitLab access token.';
+        } else if (error.status === 404) {
+          message = 'Project or branch not found. Check the project path or ID and token permissions.';
+        } else if (error.status === 403) {
+          message = 'Access forbidden. Your token may lack the "api" scope.';
+        }
+
+        return {
+          success: false,
+          message,
+        };
+      }
+
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Connection test failed',
+      };
+    }
+  }
+
+  async getBranchHead(branch: string): Promise<string> {
+    return (await this.client.getBranch(branch)).commit.id;
+  }
+
+  async readFile(path: string, ref: string): Promise<GitFileContent> {
+    const file = await this.client.request<{
+      file_path: string;
+      content: string;
+      encoding: string;
+      blob_id: string;
+    }>(`${this.client.getProjectPath()}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`);
+
+    // Files are UTF-8: decoding them byte by byte would corrupt non-ASCII text when it's committed back
+    const content = file.encoding === 'base64' ? decodeBase64(file.content) : file.content;
+
+    return {
+      content: content.replace(/\0/g, '').trim(),
+      sha: file.blob_id,
+      path: file.file_path || path,
+    };
+  }
+
+  listTree(path: string, ref: string): Promise<GitTreeEntry[]> {
+    return this.readTree(path, ref, false);
+  }
+
+  async listFiles(ref: string): Promise<string[]> {
+    const entries = await this.readTree('', ref, true);
+    return entries.filter((entry) => entry.type === 'file').map((entry) => entry.path);
+  }
+
+  /**
+   * Read a directory, with everything below it when recursive
+   */
+  private async readTree(path: string, ref: string, recursive: boolean): Promise<GitTreeEntry[]> {
+    const entries: GitTreeEntry[] = [];
+
+    // The tree endpoint is paginated; keep reading until a page comes back short
+    for (let page = 1; ; page++) {
+      const items = await this.client.request<Array<{ name: string; path: string; type: 'tree' | 'blob' | 'commit' }>>(
+        `${this.client.getProjectPath()}/repository/tree?path=${encodeURIComponent(path)}&ref=${encodeURIComponent(ref)}&recursive=${recursive}&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      );
+
+      for (const item of items) {
+        // Submodules ("commit") are neither files nor directories here
+        if (item.type !== 'commit') {
+          entries.push({ name: item.name, path: item.path, type: item.type === 'tree' ? 'dir' : 'file' });
+        }
+      }
+
+      if (items.length < TREE_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    console.log(`📋 GitLab tree for ${path || 'root'}: ${entries.length} items`);
+    return entries;
+  }
+
+  async createBranch(name: string, fromSha: string): Promise<void> {
+    await this.client.request(
+      `${this.client.getProjectPath()}/repository/branches?branch=${encodeURIComponent(name)}&ref=${encodeURIComponent(fromSha)}`,
+      { method: 'POST' }
+    );
+  }
+
+  /**
+   * Commit every file in a single commit with the Commits API
+   */
+  async commitFiles(branch: string, files: GitFileChange[], message: string): Promise<void> {
+    // The Commits API needs to know which files are created and which are updated
+    const head = await this.getBranchHead(branch);
+    const existingFiles = new Set(await this.listFiles(head));
+    const actions = files.map((file) => ({
+      action: existingFiles.has(file.path) ? 'update' : 'create',
+      file_path: file.path,
+      content: file.content,
+      encoding: 'text', // Written as UTF-8, the encoding readFile decodes
+    }));
+
+    await this.client.request(`${this.client.getProjectPath()}/repository/commits`, {
+      method: 'POST',
+      body: JSON.stringify({
+        branch,
+        commit_message: message,
+        actions,
+      }),
+    });
+  }
+
+  async openChangeRequest(request: ChangeRequestOptions): Promise<ChangeRequest> {
+    const mergeRequest = await this.client.request<{ web_url: string; iid: number }>(
+      `${this.client.getProjectPath()}/merge_requests`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          title: request.title,
+          description: request.body,
+          source_branch: request.sourceBranch,
+          target_branch: request.targetBranch,
+          remove_source_branch: true,
+          // GitLab reviewers are numeric user IDs
+          reviewer_ids: (request.reviewers || []).map(Number).filter((id) => id > 0),
+        }),
+      }
+    );
+
+    return { url: mergeRequest.web_url, number: mergeRequest.iid };
+  }
+}
@@ -1,32 +1,88 @@
-import { PluginMessage, UIMessage, PluginSettings, GitHubConfig, FileStructureMapping } from '../shared/types';
-import { loadSettings, saveSettings } from './storage';
-import { GitHubClient, GitHubAPIError } from './github/api';
+import {
+  PluginMessage,
+  UIMessage,
+  SyncState,
+  RepositoryConfig,
+  FileStructureMapping,
+  MultiBrandStructure,
+  FlatTokenMap,
+  SyncSnapshot,
+  TokenConflict,
+  ConflictResolution,
+  PullPlan,
+  UnresolvedReference,
+  TokenValidationError,
+} from '../shared/types';
+import { loadSettings, loadSyncState, saveSettings, saveSyncState, saveUserSettings } from './storage';
 import { GitHubOAuth } from './github/oauth';
-import { findTokenFiles, getTokenFiles } from './github/files';
+import { GitProvider, GitProviderError, isNotFoundError } from './git/provider';
+import { createGitProvider } from './git/providers';
+import { findTokenFiles, getTokenFiles, validateTokenPaths } from './git/token-files';
 import {
-  parseStyleDictionary,
   transformTokensToFigma,
   transformMultiBrandTokensToFigma,
-  resolveTokenReferences
+  buildFileStructureMapping,
+  flattenRepositoryTokens,
+  getRepositoryTokenTypes,
+  planTokenImport,
+  convertTokenValue,
+  findVariableRenames,
+  applyVariableRenames,
+  revertVariableRenames,
+  VariableRename,
+  getDefaultTokenFiles,
 } from './transformers/sd-to-figma';
-import { getCollectionModes } from './figma-api/variables';
+import {
+  transformTokensToStyles,
+  transformStylesToTokens,
+  buildStyleFileStructure,
+} from './transformers/styles';
+import {
+  getCollectionModes,
+  getAllVariableCollections,
+  getVariableModeValues,
+  restoreVariableModeValues,
+  findVariable,
+  getVariableUsages,
+  deprecateVariable,
+  DEPRECATED_GROUP,
+  VariableModeValue,
+} from './figma-api/variables';
 import {
   transformFigmaToTokens,
-  formatTokensAsJSON,
   generateChangeSummary,
+  updateTokenFile,
+  flattenVariableModeValues,
+  TokenFileUpdate,
 } from './transformers/figma-to-sd';
 import {
-  createPullRequest,
-  generatePRTitle,
-  generatePRBody,
-} from './github/pull-requests';
+  createChangeRequest,
+  generateChangeRequestTitle,
+  generateChangeRequestBody,
+} from './git/change-requests';
 import {
   detectMultiBrandStructure,
   categorizeTokenFiles,
   isMultiBrand,
   getBrandNames,
+  getBrandDirectory,
   deepMerge,
+  deepClone,
 } from '../shared/multi-brand-utils';
+import { countTokens } from '../shared/token-format';
+import { findUnresolvedReferences } from './transformers/references';
+import { validateTokenFiles } from '../shared/token-validation';
+import { getGitHubUrls, getRepositoryConfigError, getRepositoryKey } from '../shared/git-providers';
+import {
+  threeWayMerge,
+  updateSnapshotTokens,
+  getSnapshotFor,
+  getTokenKey,
+  parseTokenKey,
+  setSnapshotToken,
+  renameTokenKeys,
+  MergeResult,
+} from '../shared/three-way-merge';
 
 console.log('🚀 Plugin loading - Figma Token Sync Plugin Started!');
 console.log('🚀 Build timestamp:', new Date().toISOString());
@@ -53,13 +109,13 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
       }
 
       case 'SAVE_SETTINGS': {
-        const success = await saveSettings(msg.settings);
+        const success = await saveUserSettings(msg.settings);
         sendToUI({ type: 'SETTINGS_SAVED', success });
         break;
       }
 
       case 'TEST_CONNECTION': {
-        // Test GitHub connection
+        // Test repository connection
         console.log('🔗 Plugin received TEST_CONNECTION with config:', {
           hasToken: !!msg.config.token,
           hasOAuthToken: !!msg.config.oauthToken,
@@ -70,7 +126,7 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
           branch: msg.config.branch
         });
         sendToUI({ type: 'SYNC_PROGRESS', message: 'Testing connection...' });
-        const result = await testGitHubConnection(msg.config);
+        const result = await testRepositoryConnection(msg.config);
         console.log('🔗 Test connection result:', result);
         sendToUI({
           type: 'CONNECTION_TESTED',
@@ -81,32 +137,33 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
       }
 
       case 'PULL_FROM_GITHUB': {
-        // Pull tokens from GitHub and update Figma
+        // Pull tokens from the repository and update Figma
         sendToUI({ type: 'SYNC_STARTED', direction: 'pull' });
 
         try {
-          const pullResult = await pullTokensFromGitHub(msg.config);
+          const pullResult = await pullTokensFromRepository(msg.config);
 
           if (pullResult.success) {
             // Update last sync in settings
-            const currentSettings = await loadSettings();
-            const updatedSettings: PluginSettings = {
-              ...currentSettings,
-              lastSync: {
-                timestamp: Date.now(),
-                direction: 'pull',
-                status: 'success',
-                message: pullResult.message,
-              },
-            };
-            await saveSettings(updatedSettings);
+            await saveSyncResult('pull', pullResult.message, {
+              brandStructure: pullResult.brandStructure,
+              fileStructure: pullResult.fileStructure,
+              styleStructure: pullResult.styleStructure,
+              snapshot: pullResult.snapshot,
+            });
           }
 
           sendToUI({
             type: 'SYNC_COMPLETE',
             success: pullResult.success,
             message: pullResult.message,
+            unresolvedReferences: pullResult.unresolvedReferences,
+            validationErrors: pullResult.validationErrors,
           });
+
+          if (pullResult.conflicts?.length) {
+            sendToUI({ type: 'SYNC_CONFLICTS', conflicts: pullResult.conflicts });
+          }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Pull failed';
           sendToUI({
@@ -118,26 +175,49 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
         break;
       }
 
+      case 'PREVIEW_PULL': {
+        // Compute what a pull would change and show it for approval
+        sendToUI({ type: 'SYNC_STARTED', direction: 'pull' });
+
+        try {
+          const previewResult = await pullTokensFromRepository(msg.config, { dryRun: true });
+
+          sendToUI({
+            type: 'SYNC_COMPLETE',
+            success: previewResult.success,
+            message: previewResult.message,
+            unresolvedReferences: previewResult.unresolvedReferences,
+            validationErrors: previewResult.validationErrors,
+          });
+
+          if (previewResult.plan) {
+            sendToUI({ type: 'PULL_PREVIEW', plan: previewResult.plan });
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Preview failed';
+          sendToUI({
+            type: 'SYNC_COMPLETE',
+            success: false,
+            message: errorMessage,
+          });
+        }
+        break;
+      }
+
       case 'PUSH_TO_GITHUB': {
-        // Push Figma variables to GitHub as PR
+        // Push Figma variables to the repository as a change request
         sendToUI({ type: 'SYNC_STARTED', direction: 'push' });
 
         try {
-          const pushResult = await pushTokensToGitHub(msg.config);
+          const pushResult = await pushTokensToRepository(msg.config);
 
           if (pushResult.success) {
             // Update last sync in settings
-            const currentSettings = await loadSettings();
-            const updatedSettings: PluginSettings = {
-              ...currentSettings,
-              lastSync: {
-                timestamp: Date.now(),
-                direction: 'push',
-                status: 'success',
-                message: pushResult.message,
-              },
-            };
-            await saveSettings(updatedSettings);
+            await saveSyncResult('push', pushResult.message, {
+              fileStructure: pushResult.fileStructure,
+              styleStructure: pushResult.styleStructure,
+              snapshot: pushResult.snapshot,
+            });
           }
 
           sendToUI({
@@ -146,6 +226,10 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
             message: pushResult.message,
             prUrl: pushResult.prUrl,
           });
+
+          if (pushResult.conflicts?.length) {
+            sendToUI({ type: 'SYNC_CONFLICTS', conflicts: pushResult.conflicts });
+          }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Push failed';
           sendToUI({
@@ -157,6 +241,62 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
         break;
       }
 
+      case 'RESOLVE_CONFLICTS': {
+        // Apply the chosen values, then pull and push so both sides end up with them
+        sendToUI({ type: 'SYNC_STARTED', direction: 'pull' });
+
+        try {
+          const resolveResult = await applyConflictResolutions(msg.config, msg.resolutions);
+          if (!resolveResult.success) {
+            sendToUI({ type: 'SYNC_COMPLETE', success: false, message: resolveResult.message });
+            break;
+          }
+
+          const pullResult = await pullTokensFromRepository(msg.config);
+          if (!pullResult.success) {
+            sendToUI({ type: 'SYNC_COMPLETE', success: false, message: pullResult.message });
+            break;
+          }
+
+          await saveSyncResult('pull', pullResult.message, {
+            brandStructure: pullResult.brandStructure,
+            fileStructure: pullResult.fileStructure,
+            styleStructure: pullResult.styleStructure,
+            snapshot: pullResult.snapshot,
+          });
+
+          sendToUI({ type: 'SYNC_STARTED', direction: 'push' });
+          const pushResult = await pushTokensToRepository(msg.config);
+
+          if (pushResult.success) {
+            await saveSyncResult('push', pushResult.message, {
+              fileStructure: pushResult.fileStructure,
+              styleStructure: pushResult.styleStructure,
+              snapshot: pushResult.snapshot,
+            });
+          }
+
+          sendToUI({
+            type: 'SYNC_COMPLETE',
+            success: pushResult.success,
+            message: `${resolveResult.message}\n${pushResult.message}`,
+            prUrl: pushResult.prUrl,
+          });
+
+          if (pushResult.conflicts?.length) {
+            sendToUI({ type: 'SYNC_CONFLICTS', conflicts: pushResult.conflicts });
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Conflict resolution failed';
+          sendToUI({
+            type: 'SYNC_COMPLETE',
+            success: false,
+            message: errorMessage,
+          });
+        }
+        break;
+      }
+
       case 'GET_COLLECTION_MODES': {
         // Get modes for a specific collection
         try {
@@ -179,7 +319,7 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
         // Start GitHub OAuth device flow
         try {
           sendToUI({ type: 'SYNC_PROGRESS', message: 'Starting OAuth flow...' });
-          const deviceCodeResponse = await GitHubOAuth.startDeviceFlow();
+          const deviceCodeResponse = await GitHubOAuth.startDeviceFlow(getGitHubUrls(msg).webBaseUrl);
           sendToUI({
             type: 'OAUTH_DEVICE_CODE',
             userCode: deviceCodeResponse.user_code,
@@ -200,7 +340,7 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
       case 'POLL_OAUTH_TOKEN': {
         // Poll for OAuth token
         try {
-          const token = await GitHubOAuth.pollForToken(msg.deviceCode, msg.interval);
+          const token = await GitHubOAuth.pollForToken(msg.deviceCode, msg.interval, getGitHubUrls(msg).webBaseUrl);
           sendToUI({
             type: 'OAUTH_SUCCESS',
             token,
@@ -223,8 +363,8 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
 
     // Enhanced error handling
     let errorMessage = 'Unknown error occurred';
-    if (error instanceof GitHubAPIError) {
-      errorMessage = `GitHub API Error: ${error.message}`;
+    if (error instanceof GitProviderError) {
+      errorMessage = `${error.provider} API Error: ${error.message}`;
       if (error.status) {
         errorMessage += ` (Status: ${error.status})`;
       }
@@ -244,32 +384,33 @@ function sendToUI(message: UIMessage) {
   figma.ui.postMessage(message);
 }
 
-// Test GitHub connection with comprehensive validation including OAuth support
-async function testGitHubConnection(
-  config: GitHubConfig
+// Test the repository connection with comprehensive validation including OAuth support
+async function testRepositoryConnection(
+  config: RepositoryConfig
 ): Promise<{ success: boolean; message: string }> {
   try {
+    const provider = createGitProvider(config);
+
     // Ensure we have either token or oauthToken
     if (!config.token && !config.oauthToken) {
       return {
         success: false,
-        message: 'No authentication token provided. Please authenticate with GitHub first.',
+        message: `No authentication token provided. Please authenticate with ${provider.name} first.`,
       };
     }
 
-    // Ensure we have repository info
-    if (!config.owner || !config.repo) {
+    // Ensure we have repository info, as the host identifies repositories
+    const configError = getRepositoryConfigError(config);
+    if (configError) {
       return {
         success: false,
-        message: 'Repository owner and name are required.',
+        message: configError,
       };
     }
 
-    const client = new GitHubClient(config);
-
     // Run comprehensive connection test
     sendToUI({ type: 'SYNC_PROGRESS', message: 'Verifying credentials...' });
-    const testResult = await client.testConnection();
+    const testResult = await provider.testConnection();
 
     if (!testResult.success) {
       return testResult;
@@ -282,14 +423,8 @@ async function testGitHubConnection(
       // First, let's see what's in the root directory
       try {
         console.log('🔍 Attempting to list root directory...');
-        const rootResponse = await client.request<any>(
-          `/repos/${config.owner}/${config.repo}/contents?ref=${config.branch || 'main'}`
-        );
-        console.log('🗂️ Raw root response type:', typeof rootResponse, Array.isArray(rootResponse));
-        console.log('🗂️ Raw root response sample:', rootResponse[0] || rootResponse);
-
-        const rootFiles = Array.isArray(rootResponse) ? rootResponse : [rootResponse];
-        console.log('🗂️ Repository root contents:', rootFiles.map(f => `${f.name || f.filename || 'unknown'} (${f.type || 'unknown'})`));
+        const rootFiles = await provider.listTree('', config.branch || 'main');
+        console.log('🗂️ Repository root contents:', rootFiles.map(f => `${f.name} (${f.type})`));
         sendToUI({ type: 'SYNC_PROGRESS', message: `Repository has ${rootFiles.length} items in root: ${rootFiles.slice(0, 5).map(f => f.name).join(', ')}${rootFiles.length > 5 ? '...' : ''}` });
       } catch (error) {
         console.error('Failed to list root directory:', error);
@@ -299,7 +434,7 @@ async function testGitHubConnection(
       sendToUI({ type: 'SYNC_PROGRESS', message: 'Searching for token files...' });
 
       // Find token files matching the patterns
-      const tokenFiles = await findTokenFiles(client, config.tokenPaths, config.branch);
+      const tokenFiles = await findTokenFiles(provider, config.tokenPaths, config.branch, config.excludePaths);
 
       if (tokenFiles.length === 0) {
         return {
@@ -309,7 +444,7 @@ async function testGitHubConnection(
       }
 
       // Validate paths exist
-      const validation = await client.validateTokenPaths(tokenFiles);
+      const validation = await validateTokenPaths(provider, tokenFiles, config.branch);
       const missingFiles = validation.results.filter((r) => !r.exists);
 
       if (missingFiles.length > 0) {
@@ -322,7 +457,7 @@ async function testGitHubConnection(
       const details = testResult.details!;
       return {
         success: true,
-        message: `✓ Connected as ${details.user} to ${details.repo} (${details.branch})\n✓ Found ${tokenFiles.length} token file(s)\n✓ Write access: ${details.hasWriteAccess ? 'Yes' : 'No'}`,
+        message: `✓ Connected as ${details.user} to ${details.repo} (${details.branch})\n✓ Found ${tokenFiles.length} token file(s)\n✓ Write access: ${describeWriteAccess(details.hasWriteAccess)}`,
       };
     }
 
@@ -330,10 +465,10 @@ async function testGitHubConnection(
     const details = testResult.details!;
     return {
       success: true,
-      message: `✓ Connected as ${details.user} to ${details.repo} (${details.branch})\n✓ Write access: ${details.hasWriteAccess ? 'Yes' : 'No'}`,
+      message: `✓ Connected as ${details.user} to ${details.repo} (${details.branch})\n✓ Write access: ${describeWriteAccess(details.hasWriteAccess)}`,
     };
   } catch (error) {
-    if (error instanceof GitHubAPIError) {
+    if (error instanceof GitProviderError) {
       return {
         success: false,
         message: error.message,
@@ -347,16 +482,40 @@ async function testGitHubConnection(
   }
 }
 
-// Pull tokens from GitHub and update Figma variables
-async function pullTokensFromGitHub(
-  config: GitHubConfig
-): Promise<{ success: boolean; message: string }> {
+// Describe the write access a connection test reported
+function describeWriteAccess(hasWriteAccess?: boolean): string {
+  if (hasWriteAccess === undefined) {
+    return 'Unknown';
+  }
+  return hasWriteAccess ? 'Yes' : 'No';
+}
+
+// Pull tokens from the repository and update Figma variables
+async function pullTokensFromRepository(
+  config: RepositoryConfig,
+  options: { dryRun?: boolean } = {} // Dry run only computes the plan, nothing is written
+): Promise<{
+  success: boolean;
+  message: string;
+  brandStructure?: MultiBrandStructure;
+  fileStructure?: FileStructureMapping;
+  styleStructure?: FileStructureMapping;
+  snapshot?: SyncSnapshot;
+  conflicts?: TokenConflict[];
+  plan?: PullPlan;
+  unresolvedReferences?: UnresolvedReference[];
+  validationErrors?: TokenValidationError[];
+}> {
+  // Renames applied so far, undone when the pull fails
+  let appliedRenames: VariableRename[] = [];
+
   try {
-    const client = new GitHubClient(config);
+    const provider = createGitProvider(config);
+    const settings = await loadSettings();
 
     // Step 1: Find token files
     sendToUI({ type: 'SYNC_PROGRESS', message: 'Finding token files...' });
-    const tokenFiles = await findTokenFiles(client, config.tokenPaths, config.branch);
+    const tokenFiles = await findTokenFiles(provider, config.tokenPaths, config.branch, config.excludePaths);
 
     if (tokenFiles.length === 0) {
       return {
@@ -372,7 +531,10 @@ async function pullTokensFromGitHub(
 
     // Step 2: Fetch token files
     sendToUI({ type: 'SYNC_PROGRESS', message: 'Fetching token files...' });
-    const fileContents = await getTokenFiles(client, tokenFiles, config.branch);
+
+    // Read every file at the same commit so the snapshot matches what was imported
+    const headSha = await provider.getBranchHead(config.branch);
+    const fileContents = await getTokenFiles(provider, tokenFiles, headSha);
 
     // Check for errors
     const failedFiles = fileContents.filter((f) => f.error);
@@ -409,7 +571,129 @@ async function pullTokensFromGitHub(
       };
     }
 
-    // Step 5: Transform tokens based on structure type
+    // Malformed tokens are reported together before anything is changed
+    const validationErrors = validateTokenFiles(processedFiles);
+    if (validationErrors.length > 0) {
+      return {
+        success: false,
+        message: describeValidationErrors(validationErrors).join('\n'),
+        validationErrors,
+      };
+    }
+
+    // References to missing tokens and reference cycles; their tokens are skipped unless the pull should fail
+    const unresolvedReferences = findUnresolvedReferences(processedFiles);
+    if (unresolvedReferences.length > 0 && config.failOnUnresolvedReferences) {
+      return {
+        success: false,
+        message: describeUnresolvedReferences(unresolvedReferences).join('\n'),
+        unresolvedReferences,
+      };
+    }
+
+    // Determine processing strategy based on configuration
+    const useMultiBrandProcessing = isMultiBrandRepo && config.modeStrategy !== 'target';
+
+    // Step 5: Merge with Figma changes made since the last sync
+    const mergeOptions = getMergeOptions(config, brandStructure);
+    const repositoryTokens = flattenRepositoryTokens(processedFiles, mergeOptions);
+
+    // Tokens renamed in the repository rename their variable, so merge as if it already had the new name
+    const renames = await findVariableRenames(processedFiles, mergeOptions);
+    const renamedPaths = new Map(renames.map(r => [r.from, r.to]));
+    const currentValues = (await getVariableModeValues(settings.modeMapping)).map(v =>
+      renamedPaths.has(v.variablePath) ? { ...v, variablePath: renamedPaths.get(v.variablePath)! } : v
+    );
+    const currentTokens = flattenVariableModeValues(currentValues);
+
+    const storedSnapshot = getSnapshotFor(loadSyncState().snapshot, getRepositoryKey(config), config.branch);
+    const snapshot = storedSnapshot && { ...storedSnapshot, tokens: renameTokenKeys(storedSnapshot.tokens, renames) };
+    let merge: MergeResult | null = null;
+    let keepFigma = new Set<string>();
+    let preservedValues: VariableModeValue[] = [];
+    let deletedInFigma: string[] = [];
+    let conflicts: TokenConflict[] = [];
+
+    if (snapshot) {
+      sendToUI({ type: 'SYNC_PROGRESS', message: 'Merging with changes made in Figma...' });
+
+      merge = threeWayMerge(snapshot.tokens, currentTokens, repositoryTokens);
+      conflicts = withVariableTypes(merge.conflicts, currentValues);
+
+      // Figma changes and conflicts keep their Figma value
+      keepFigma = new Set([...merge.ours, ...merge.conflicts.map(c => c.key)]);
+      preservedValues = currentValues.filter(v => keepFigma.has(getTokenKey(v.variablePath, v.mode)));
+      // Only tokens this document last synced can have been deleted in it
+      deletedInFigma = merge.ours.filter(key =>
+        currentTokens[key] === undefined && snapshot.tokens[key] !== undefined && !parseTokenKey(key).mode
+      );
+
+      console.log(`🔀 Merge against ${snapshot.commitSha.substring(0, 7)}: ${merge.theirs.length} repository change(s), ${merge.ours.length} Figma change(s), ${merge.conflicts.length} conflict(s)`);
+    } else {
+      console.log('🔀 No snapshot of the last sync - importing repository tokens as they are');
+    }
+
+    // Variables whose token was removed from the repository (opt-in)
+    const pruneMode = config.pruneMode || 'off';
+    const pruneCandidates = pruneMode === 'off'
+      ? []
+      : findPruneCandidates(currentValues, repositoryTokens, mergeOptions.targetMode, merge);
+    const pruneUsages = await getVariableUsages(pruneCandidates.map(c => c.variableId));
+
+    if (options.dryRun) {
+      sendToUI({ type: 'SYNC_PROGRESS', message: 'Planning changes...' });
+
+      const collections = await getAllVariableCollections();
+      const plan: PullPlan = {
+        ...planTokenImport(
+          {
+            tokens: repositoryTokens,
+            types: getRepositoryTokenTypes(processedFiles, mergeOptions),
+          },
+          {
+            tokens: currentTokens,
+            types: getVariableTypes(currentValues),
+            collections: collections.map(c => ({
+              name: c.name,
+              modes: c.modes.map(m => settings.modeMapping?.[m.name] || m.name),
+            })),
+          },
+          keepFigma
+        ),
+        keptInFigma: merge ? merge.ours : [],
+        conflicts,
+      };
+
+      plan.changes.unshift(...renames.map(r => ({ action: 'rename' as const, key: r.to, oldKey: r.from })));
+
+      for (const candidate of pruneCandidates) {
+        plan.changes.push({
+          action: pruneMode === 'deprecate' ? 'deprecate' : 'delete',
+          key: candidate.variablePath,
+          oldValue: currentTokens[getTokenKey(candidate.variablePath, mergeOptions.targetMode)],
+          oldType: getVariableTypes(currentValues)[candidate.variablePath],
+          usages: pruneUsages.get(candidate.variableId),
+        });
+      }
+
+      console.log(`🔍 Pull preview: ${plan.changes.length} change(s), ${plan.collectionsToCreate.length} collection(s) and ${plan.modesToCreate.length} mode(s) to create`);
+
+      return {
+        success: true,
+        message: [
+          `Preview: ${plan.changes.length} variable change(s) - nothing has been written yet`,
+          ...describeUnresolvedReferences(unresolvedReferences),
+        ].join('\n'),
+        plan,
+        unresolvedReferences,
+      };
+    }
+
+    // Step 6: Rename variables in place so layers bound to them keep their binding
+    const renamed = await applyVariableRenames(renames);
+    appliedRenames = renames;
+
+    // Step 7: Transform tokens based on structure type
     sendToUI({ type: 'SYNC_PROGRESS', message: 'Creating Figma variables...' });
 
     let totalCollections = 0;
@@ -419,9 +703,6 @@ async function pullTokensFromGitHub(
     const allWarnings: string[] = [];
 
     try {
-      // Determine processing strategy based on configuration
-      const useMultiBrandProcessing = isMultiBrandRepo && config.modeStrategy !== 'target';
-
       if (useMultiBrandProcessing) {
         // Multi-brand processing with automatic mode creation from brand names
         sendToUI({ type: 'SYNC_PROGRESS', message: 'Processing multi-brand tokens with automatic mode creation...' });
@@ -429,6 +710,8 @@ async function pullTokensFromGitHub(
         const transformOptions = {
           collectionName: config.targetCollection || undefined,
           // For multi-brand auto mode, we don't use targetMode - modes are created from brand names
+          codeSyntax: config.codeSyntax,
+          baseFontSize: config.baseFontSize,
         };
 
         console.log(`🎯 Multi-brand transform options:`, transformOptions);
@@ -460,14 +743,12 @@ async function pullTokensFromGitHub(
           console.log(`📦 Merged tokens from ${file.path}`);
         }
 
-        // Resolve all references globally
-        const resolvedGlobalTokens = resolveTokenReferences(allTokens);
-        console.log(`🔗 Resolved ${Object.keys(allTokens).length} top-level token groups`);
-
         // Transform all resolved tokens at once
         const transformOptions = {
           collectionName: config.targetCollection || undefined,
-          targetMode: config.targetMode || undefined
+          targetMode: config.targetMode || undefined,
+          codeSyntax: config.codeSyntax,
+          baseFontSize: config.baseFontSize,
         };
 
         if (isMultiBrandRepo) {
@@ -477,7 +758,7 @@ async function pullTokensFromGitHub(
           console.log(`🎯 Single-brand transform options:`, transformOptions);
         }
 
-        const result = await transformTokensToFigma(resolvedGlobalTokens, transformOptions);
+        const result = await transformTokensToFigma(allTokens, transformOptions);
 
         totalCollections += result.collectionsCreated;
         totalCreated += result.variablesCreated;
@@ -495,14 +776,84 @@ async function pullTokensFromGitHub(
       console.error(errorMsg);
     }
 
-    // Step 6: Report results
+    // Restore Figma changes the import overwrote
+    if (merge) {
+      const restored = await restoreVariableModeValues(preservedValues);
+      console.log(`🔀 Kept ${restored} Figma value(s) changed since the last sync`);
+
+      // Variables deleted in Figma stay deleted unless the repository changed them
+      for (const variablePath of deletedInFigma) {
+        const [collectionName, ...nameParts] = variablePath.split('/');
+        const variable = await findVariable(nameParts.join('/'), collectionName);
+        if (variable) {
+          variable.remove();
+          console.log(`🗑️ Removed ${variablePath} again, it was deleted in Figma`);
+        }
+      }
+    }
+
+    // Step 8: Create text and effect styles from composite tokens, bound to the variables they reference
+    const styleFiles = getDefaultTokenFiles(processedFiles, mergeOptions);
+    const rootTokens: any = {};
+    for (const file of processedFiles) {
+      deepMerge(rootTokens, deepClone(file.tokens));
+    }
+
+    const styleResult = await transformTokensToStyles(styleFiles, rootTokens, {
+      collectionName: config.targetCollection || undefined,
+      baseFontSize: config.baseFontSize,
+    });
+    allWarnings.push(...styleResult.warnings);
+
+    // Step 9: Prune variables whose token was removed from the repository
+    const pruned: string[] = [];
+    if (allErrors.length === 0) {
+      for (const candidate of pruneCandidates) {
+        const variable = await figma.variables.getVariableByIdAsync(candidate.variableId);
+        if (!variable) {
+          continue;
+        }
+
+        const usage = pruneUsages.get(candidate.variableId)!;
+        if (usage.layers > 0 || usage.styles > 0) {
+          console.warn(`⚠️ Pruning ${candidate.variablePath} still used by ${usage.layers} layer(s) and ${usage.styles} style(s)`);
+        }
+
+        if (pruneMode === 'deprecate') {
+          deprecateVariable(variable);
+        } else {
+          variable.remove();
+          console.log(`🗑️ Deleted ${candidate.variablePath}, its token was removed from the repository`);
+        }
+        pruned.push(`${candidate.variablePath} (${usage.layers} layer(s), ${usage.styles} style(s))`);
+      }
+    }
+
+    // Step 10: Report results
     if (allErrors.length > 0) {
+      // Nothing is recorded for a failed pull, so renamed variables get their old name back
+      await revertVariableRenames(appliedRenames);
       return {
         success: false,
         message: `Sync completed with errors:\n${allErrors.slice(0, 5).join('\n')}${allErrors.length > 5 ? `\n... and ${allErrors.length - 5} more errors` : ''}`,
+        unresolvedReferences,
       };
     }
 
+    // Step 11: Remember which file each variable came from so push can write it back
+    const fileStructure = buildFileStructureMapping(processedFiles, {
+      collectionName: config.targetCollection || undefined,
+      brandModes: useMultiBrandProcessing,
+    });
+    const figmaValues = await getVariableModeValues(settings.modeMapping);
+    const variablePaths = new Set(figmaValues.map(v => v.variablePath));
+    for (const variablePath of Object.keys(fileStructure)) {
+      // Tokens that could not be imported must not be removed from the repository on push
+      if (!variablePaths.has(variablePath)) {
+        delete fileStructure[variablePath];
+      }
+    }
+
     const summary = [
       `✓ Successfully imported ${fileContents.length} token file(s)`,
       isMultiBrandRepo ? `✓ Multi-brand structure with ${getBrandNames(brandStructure).length} brands: ${getBrandNames(brandStructure).join(', ')}` : `✓ Single-brand structure`,
@@ -514,6 +865,41 @@ async function pullTokensFromGitHub(
       summary.push(`✓ Modes created: Default + ${getBrandNames(brandStructure).join(', ')}`);
     }
 
+    if (styleResult.stylesCreated + styleResult.stylesUpdated > 0) {
+      summary.push(`✓ Styles: ${styleResult.stylesCreated} created, ${styleResult.stylesUpdated} updated`);
+    }
+
+    if (styleResult.errors.length > 0) {
+      summary.push(
+        `⚠ ${styleResult.errors.length} style(s) could not be imported:`,
+        ...styleResult.errors.slice(0, 5).map(e => `  - ${e}`)
+      );
+    }
+
+    if (renamed > 0) {
+      summary.push(`✓ Renamed ${renamed} variable(s) in place: ${renames.map(r => `${r.from} → ${r.to}`).join(', ')}`);
+    }
+
+    if (merge && merge.ours.length > 0) {
+      summary.push(`✓ Kept ${merge.ours.length} Figma change(s) made since the last sync`);
+    }
+
+    if (pruned.length > 0) {
+      summary.push(
+        pruneMode === 'deprecate'
+          ? `✓ Moved ${pruned.length} removed variable(s) to ${DEPRECATED_GROUP}/:`
+          : `✓ Deleted ${pruned.length} removed variable(s):`,
+        ...pruned.slice(0, 5).map(p => `  - ${p}`),
+        ...(pruned.length > 5 ? [`  ... and ${pruned.length - 5} more`] : [])
+      );
+    }
+
+    if (merge) {
+      summary.push(...describeConflicts(merge.conflicts, 'kept the Figma value'));
+    }
+
+    summary.push(...describeUnresolvedReferences(unresolvedReferences));
+
     if (allWarnings.length > 0) {
       summary.push(`⚠ Warnings: ${allWarnings.length}`);
     }
@@ -521,14 +907,21 @@ async function pullTokensFromGitHub(
     return {
       success: true,
       message: summary.join('\n'),
+      brandStructure,
+      fileStructure,
+      styleStructure: buildStyleFileStructure(styleFiles),
+      snapshot: createSnapshot(config, headSha, snapshot, flattenVariableModeValues(figmaValues), repositoryTokens),
+      conflicts,
+      unresolvedReferences,
     };
   } catch (error) {
     console.error('Pull failed:', error);
+    await revertVariableRenames(appliedRenames);
 
-    if (error instanceof GitHubAPIError) {
+    if (error instanceof GitProviderError) {
       return {
         success: false,
-        message: `GitHub API Error: ${error.message}`,
+        message: `${error.provider} API Error: ${error.message}`,
       };
     }
 
@@ -539,18 +932,313 @@ async function pullTokensFromGitHub(
   }
 }
 
-// Push Figma variables to GitHub as Pull Request
-async function pushTokensToGitHub(
-  config: GitHubConfig
-): Promise<{ success: boolean; message: string; prUrl?: string }> {
+// How repository tokens map to variables and modes, matching what pull imports
+function getMergeOptions(config: RepositoryConfig, brandStructure: MultiBrandStructure) {
+  const useMultiBrandProcessing = isMultiBrand(brandStructure) && config.modeStrategy !== 'target';
+
+  return {
+    collectionName: config.targetCollection || undefined,
+    targetMode: useMultiBrandProcessing ? undefined : config.targetMode || undefined,
+    brandModes: useMultiBrandProcessing,
+    brands: getBrandNames(brandStructure),
+    baseFontSize: config.baseFontSize,
+  };
+}
+
+// Read the repository's tokens at a commit in the comparable form used for merging,
+// with the brand structure they were mapped to variables and modes with
+async function readRepositoryTokens(
+  provider: GitProvider,
+  config: RepositoryConfig,
+  ref: string
+): Promise<{ tokens: FlatTokenMap; brandStructure: MultiBrandStructure }> {
+  const tokenFiles = await findTokenFiles(provider, config.tokenPaths, config.branch, config.excludePaths);
+  const fileContents = (await getTokenFiles(provider, tokenFiles, ref)).filter(f => !f.error);
+  const brandStructure = detectMultiBrandStructure(
+    tokenFiles.map(path => ({ path })),
+    config.brandFolderPattern
+  );
+
+  return {
+    tokens: flattenRepositoryTokens(
+      categorizeTokenFiles(fileContents, brandStructure),
+      getMergeOptions(config, brandStructure)
+    ),
+    brandStructure,
+  };
+}
+
+// Record a successful sync and the state it produced
+async function saveSyncResult(
+  direction: 'pull' | 'push',
+  message: string,
+  updates: SyncState
+): Promise<void> {
+  saveSyncState({ ...loadSyncState(), ...updates });
+
+  const currentSettings = await loadSettings();
+  await saveSettings({
+    ...currentSettings,
+    lastSync: {
+      timestamp: Date.now(),
+      direction,
+      status: 'success',
+      message,
+    },
+  });
+}
+
+// Figma type of every variable, keyed by "Collection/variable/path"
+function getVariableTypes(values: VariableModeValue[]): { [variablePath: string]: VariableResolvedDataType } {
+  const types: { [variablePath: string]: VariableResolvedDataType } = {};
+  for (const value of values) {
+    types[value.variablePath] = value.resolvedType;
+  }
+  return types;
+}
+
+// Variables in synced collections whose token was removed from the repository.
+// With a snapshot only variables removed from the repository since the last sync and
+// unchanged in Figma are pruned, so variables created or edited in Figma are kept.
+function findPruneCandidates(
+  currentValues: VariableModeValue[],
+  repositoryTokens: FlatTokenMap,
+  targetMode: string | undefined,
+  merge: MergeResult | null
+): Array<{ variablePath: string; variableId: string }> {
+  const repositoryPaths = new Set(Object.keys(repositoryTokens).map(key => parseTokenKey(key).variablePath));
+  const syncedCollections = new Set(Array.from(repositoryPaths).map(path => path.split('/')[0]));
+  const removedInRepository = merge ? new Set(merge.theirs) : null;
+  const candidates = new Map<string, string>();
+
+  for (const value of currentValues) {
+    const collectionName = value.variablePath.split('/')[0];
+
+    if (!syncedCollections.has(collectionName) || repositoryPaths.has(value.variablePath)) {
+      continue;
+    }
+
+    if (removedInRepository && !removedInRepository.has(getTokenKey(value.variablePath, targetMode))) {
+      continue;
+    }
+
+    candidates.set(value.variablePath, value.variableId);
+  }
+
+  return Array.from(candidates, ([variablePath, variableId]) => ({ variablePath, variableId }));
+}
+
+// Add the Figma variable type to conflicts so the UI can render colour swatches
+function withVariableTypes(conflicts: TokenConflict[], figmaValues: VariableModeValue[]): TokenConflict[] {
+  const types = new Map(figmaValues.map(v => [v.variablePath, v.resolvedType]));
+  return conflicts.map(conflict => ({
+    ...conflict,
+    type: types.get(parseTokenKey(conflict.key).variablePath),
+  }));
+}
+
+// Convert a value typed in the conflict panel to the value of a variable: a literal or a "{Collection/variable/path}" alias
+async function parseVariableModeValue(
+  entry: VariableModeValue,
+  value: string,
+  baseFontSize?: number
+): Promise<{ variable: Variable; value: VariableValue }> {
+  const variable = await figma.variables.getVariableByIdAsync(entry.variableId);
+  if (!variable) {
+    throw new Error('variable not found in Figma');
+  }
+
+  const reference = value.trim().match(/^\{([^{}]+)\}$/);
+  if (reference) {
+    const [collectionName, ...nameParts] = reference[1].split('/');
+    const target = await findVariable(nameParts.join('/'), collectionName);
+    if (!target) {
+      throw new Error(`alias target {${reference[1]}} not found`);
+    }
+    return { variable, value: figma.variables.createVariableAlias(target) };
+  }
+
+  const figmaValue = convertTokenValue(value, entry.resolvedType, baseFontSize);
+  if (figmaValue === null) {
+    throw new Error(`unsupported value "${value}"`);
+  }
+  return { variable, value: figmaValue };
+}
+
+// Record conflict resolutions in the snapshot so the next pull and push apply them.
+// Edited values are set in Figma first and then pushed like any other Figma change;
+// nothing is set unless every edited value is valid.
+async function applyConflictResolutions(
+  config: RepositoryConfig,
+  resolutions: ConflictResolution[]
+): Promise<{ success: boolean; message: string }> {
+  const settings = await loadSettings();
+  const syncState = loadSyncState();
+  const snapshot = getSnapshotFor(syncState.snapshot, getRepositoryKey(config), config.branch);
+  if (!snapshot) {
+    return {
+      success: false,
+      message: 'No last-synced snapshot of this branch found - pull before resolving conflicts',
+    };
+  }
+
+  const figmaValues = await getVariableModeValues(settings.modeMapping);
+  let tokens = snapshot.tokens;
+  const edits: Array<{ variable: Variable; modeId: string; value: VariableValue }> = [];
+  const errors: string[] = [];
+
+  for (const { conflict, choice, value } of resolutions) {
+    if (choice === 'repository') {
+      // Figma is treated as unchanged, so pull imports the repository value
+      tokens = setSnapshotToken(tokens, conflict.key, conflict.ours);
+      continue;
+    }
+
+    if (choice === 'edit') {
+      const entry = figmaValues.find(v => getTokenKey(v.variablePath, v.mode) === conflict.key);
+      try {
+        if (!entry || value === undefined) {
+          throw new Error('variable not found in Figma');
+        }
+        edits.push({ ...(await parseVariableModeValue(entry, value, config.baseFontSize)), modeId: entry.modeId });
+      } catch (error) {
+        errors.push(`${conflict.key}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        continue;
+      }
+    }
+
+    // The repository is treated as unchanged, so push writes the Figma value
+    tokens = setSnapshotToken(tokens, conflict.key, conflict.theirs);
+  }
+
+  if (errors.length > 0) {
+    return {
+      success: false,
+      message: `Could not apply conflict resolutions:\n${errors.join('\n')}`,
+    };
+  }
+
+  for (const edit of edits) {
+    edit.variable.setValueForMode(edit.modeId, edit.value);
+  }
+
+  saveSyncState({
+    ...syncState,
+    snapshot: { ...snapshot, tokens },
+  });
+
+  console.log(`🔀 Resolved ${resolutions.length} conflict(s)`);
+
+  return {
+    success: true,
+    message: `✓ Resolved ${resolutions.length} conflict(s)`,
+  };
+}
+
+// Snapshot of the state both sides agree on after a sync
+function createSnapshot(
+  config: RepositoryConfig,
+  commitSha: string,
+  previous: SyncSnapshot | null,
+  figmaTokens: FlatTokenMap,
+  repositoryTokens: FlatTokenMap
+): SyncSnapshot {
+  return {
+    repository: getRepositoryKey(config),
+    branch: config.branch,
+    commitSha,
+    timestamp: Date.now(),
+    tokens: updateSnapshotTokens(previous?.tokens || {}, figmaTokens, repositoryTokens),
+  };
+}
+
+// Summary lines for tokens changed on both sides since the last sync
+function describeConflicts(conflicts: TokenConflict[], resolution: string): string[] {
+  if (conflicts.length === 0) {
+    return [];
+  }
+
+  return [
+    `⚠ Conflicts: ${conflicts.length} token(s) changed in both Figma and the repository - ${resolution}`,
+    ...conflicts.slice(0, 5).map(c => `  - ${c.key}: Figma ${JSON.stringify(c.ours)}, repository ${JSON.stringify(c.theirs)}`),
+    ...(conflicts.length > 5 ? [`  ... and ${conflicts.length - 5} more`] : []),
+  ];
+}
+
+// Summary lines for malformed tokens
+function describeValidationErrors(errors: TokenValidationError[]): string[] {
+  const files = new Set(errors.map(e => e.file));
+  return [
+    `Found ${errors.length} invalid token(s) in ${files.size} file(s), nothing was imported:`,
+    ...errors.slice(0, 5).map(e => `  - ${e.file}#${e.pointer}: ${e.message}`),
+    ...(errors.length > 5 ? [`  ... and ${errors.length - 5} more, see Invalid Tokens`] : []),
+  ];
+}
+
+// Summary lines for references that don't resolve
+function describeUnresolvedReferences(unresolved: UnresolvedReference[]): string[] {
+  if (unresolved.length === 0) {
+    return [];
+  }
+
+  return [
+    `⚠ Unresolved references: ${unresolved.length}`,
+    ...unresolved.slice(0, 5).map(r =>
+      `  - ${r.file}: ${r.tokenPath} → {${r.reference}} (${r.reason === 'circular' ? 'circular' : 'not found'})`
+    ),
+    ...(unresolved.length > 5 ? [`  ... and ${unresolved.length - 5} more`] : []),
+  ];
+}
+
+// Extract the base directory from the configured token paths
+// e.g. "tokens/**/*.json" -> "tokens", "tokens/globals/*.json" -> "tokens/globals"
+function getBaseDirectory(tokenPaths: string[]): string {
+  const firstPattern = tokenPaths[0] || 'tokens/**/*.json';
+
+  let baseDir = 'tokens';
+  if (firstPattern.includes('/')) {
+    const parts = firstPattern.split('/');
+    // Find the parts that don't contain wildcards
+    const nonWildcardParts = parts.filter(part => !part.includes('*'));
+    if (nonWildcardParts.length > 0) {
+      baseDir = nonWildcardParts.join('/');
+    } else {
+      // If all parts have wildcards, use first part
+      baseDir = parts[0] === '.' ? 'tokens' : parts[0];
+    }
+  }
+
+  return baseDir;
+}
+
+// Push Figma variables to the repository as a change request
+async function pushTokensToRepository(
+  config: RepositoryConfig
+): Promise<{
+  success: boolean;
+  message: string;
+  prUrl?: string;
+  fileStructure?: FileStructureMapping;
+  styleStructure?: FileStructureMapping;
+  snapshot?: SyncSnapshot;
+  conflicts?: TokenConflict[];
+}> {
   try {
-    const client = new GitHubClient(config);
+    const provider = createGitProvider(config);
 
     // Step 1: Read Figma variables
     sendToUI({ type: 'SYNC_PROGRESS', message: 'Reading Figma variables...' });
 
+    const settings = await loadSettings();
+    const tokenFormat = config.tokenFormat || 'style-dictionary';
     const transformResult = await transformFigmaToTokens({
       organizeByCollection: true, // Create separate files per collection
+      format: tokenFormat,
+      referenceStyle: config.referenceStyle,
+      includeAllModes: true,
+      modeMapping: settings.modeMapping,
+      baseFontSize: config.baseFontSize,
+      colorFormat: config.colorFormat,
     });
 
     if (!transformResult.success) {
@@ -572,108 +1260,293 @@ async function pushTokensToGitHub(
       message: `Read ${transformResult.variablesProcessed} variables from ${transformResult.collectionsProcessed} collection(s)`,
     });
 
-    // Step 2: Determine target file paths
+    // Step 2: Merge with repository changes made since the last sync
+    sendToUI({ type: 'SYNC_PROGRESS', message: 'Comparing with the repository...' });
+
+    const headSha = await provider.getBranchHead(config.branch);
+    const repository = await readRepositoryTokens(provider, config, headSha);
+    const repositoryTokens = repository.tokens;
+    const figmaValues = await getVariableModeValues(settings.modeMapping);
+    const figmaTokens = flattenVariableModeValues(figmaValues);
+
+    const syncState = loadSyncState();
+    const snapshot = getSnapshotFor(syncState.snapshot, getRepositoryKey(config), config.branch);
+    const merge = snapshot ? threeWayMerge(snapshot.tokens, figmaTokens, repositoryTokens) : null;
+    const conflicts = merge ? withVariableTypes(merge.conflicts, figmaValues) : [];
+
+    // Repository changes and conflicts are left as they are in the repository
+    const keepRepository = new Set(merge ? [...merge.theirs, ...merge.conflicts.map(c => c.key)] : []);
+
+    if (merge) {
+      console.log(`🔀 Merge against ${snapshot!.commitSha.substring(0, 7)}: ${merge.ours.length} Figma change(s), ${merge.theirs.length} repository change(s), ${merge.conflicts.length} conflict(s)`);
+    }
+
+    const newSnapshot = createSnapshot(config, headSha, snapshot, figmaTokens, repositoryTokens);
+
+    // Source files hold the mode pull imports them into: the target mode, or the default mode.
+    // Other modes are only written as brand overrides when pull reads brand files as modes or
+    // there is no target mode - with one, pull merges brand files into the target mode.
+    const sourceMode = getMergeOptions(config, repository.brandStructure).targetMode;
+    if (sourceMode) {
+      console.log(`🎯 Writing mode ${sourceMode} to the source files, other modes are not pushed`);
+    }
+
+    // Step 3: Determine target files - variables go back to the file they were pulled from
     sendToUI({ type: 'SYNC_PROGRESS', message: 'Preparing token files...' });
 
-    const files: Array<{ path: string; content: string }> = [];
+    const fileStructure = syncState.fileStructure || {};
+    const updatedFileStructure: FileStructureMapping = { ...fileStructure };
+    const fileChanges = new Map<string, { updates: TokenFileUpdate[]; removals: string[][] }>();
 
-    // Map collection files to configured paths
-    for (const [fileName, tokens] of Object.entries(transformResult.tokens)) {
-      // Determine file path
-      let targetPath: string;
+    const getFileChanges = (path: string) => {
+      if (!fileChanges.has(path)) {
+        fileChanges.set(path, { updates: [], removals: [] });
+      }
+      return fileChanges.get(path)!;
+    };
 
+    // File for variables that weren't pulled from the repository
+    const getFallbackPath = (fileName: string): string => {
+      if (config.fallbackTokenFile) {
+        return config.fallbackTokenFile;
+      }
       if (config.tokenPaths.length === 1 && !config.tokenPaths[0].includes('*')) {
         // Single specific file - use it
-        targetPath = config.tokenPaths[0];
-      } else {
-        // Multiple files or glob pattern - use collection-based naming
-        // Extract directory from first pattern, handling glob patterns
-        const firstPattern = config.tokenPaths[0] || 'tokens/**/*.json';
-
-        // Extract base directory from glob pattern
-        let baseDir = 'tokens';
-        if (firstPattern.includes('/')) {
-          // For patterns like "tokens/**/*.json" or "tokens/globals/*.json"
-          const parts = firstPattern.split('/');
-          // Find the first part that doesn't contain wildcards
-          const nonWildcardParts = parts.filter(part => !part.includes('*'));
-          if (nonWildcardParts.length > 0) {
-            baseDir = nonWildcardParts.join('/');
-          } else {
-            // If all parts have wildcards, use first part
-            baseDir = parts[0] === '.' ? 'tokens' : parts[0];
-          }
+        return config.tokenPaths[0];
+      }
+      // Multiple files or glob pattern - use collection-based naming
+      return `${getBaseDirectory(config.tokenPaths)}/${fileName}`;
+    };
+
+    // Brand folder for mode overrides that have no recorded brand file
+    let brandStructure = syncState.brandStructure;
+    const getModeDirectory = async (modeName: string): Promise<string> => {
+      if (!brandStructure) {
+        // No pull recorded yet - discover brand folders from the repository
+        const tokenFiles = await findTokenFiles(provider, config.tokenPaths, config.branch, config.excludePaths);
+        brandStructure = detectMultiBrandStructure(
+          tokenFiles.map(path => ({ path })),
+          config.brandFolderPattern
+        );
+      }
+
+      const brand = brandStructure.brands.find(b => b.name === modeName);
+      return (brand && getBrandDirectory(brand))
+        || `${getBaseDirectory(config.tokenPaths)}/${config.brandFolderPattern || 'brands'}/${modeName}`;
+    };
+
+    const exportedPaths = new Set<string>();
+    const exportedModes = new Set<string>();
+
+    for (const exported of transformResult.exportedTokens) {
+      exportedPaths.add(exported.variablePath);
+
+      // The default mode has no mode in token keys
+      const exportedSourceMode = sourceMode && exported.modes.includes(sourceMode) ? sourceMode : undefined;
+      const sourceToken = (exportedSourceMode && exported.modeTokens[exportedSourceMode]) || exported.token;
+
+      let entry = fileStructure[exported.variablePath];
+      if (!entry) {
+        // Genuinely new variable
+        entry = {
+          file: getFallbackPath(exported.fileName),
+          tokenPath: exported.tokenPath,
+        };
+        console.log(`📁 New variable ${exported.variablePath} will be written to ${entry.file}`);
+      }
+
+      const brandFiles = { ...entry.brandFiles };
+
+      // Brand-only tokens have no default value in the repository
+      const isBrandOnly = Object.values(brandFiles).includes(entry.file);
+      if (!isBrandOnly && !keepRepository.has(getTokenKey(exported.variablePath, exportedSourceMode))) {
+        getFileChanges(entry.file).updates.push({ tokenPath: entry.tokenPath, token: sourceToken });
+      }
+
+      // Without a target mode, modes that differ from default are written as brand overrides
+      for (const [modeName, token] of Object.entries(exported.modeTokens)) {
+        if (sourceMode || keepRepository.has(getTokenKey(exported.variablePath, modeName))) {
+          continue;
+        }
+
+        exportedModes.add(modeName);
+
+        if (!brandFiles[modeName]) {
+          const fileName = entry.file.split('/').pop();
+          brandFiles[modeName] = `${await getModeDirectory(modeName)}/${fileName}`;
+        }
+
+        getFileChanges(brandFiles[modeName]).updates.push({ tokenPath: entry.tokenPath, token });
+      }
+
+      // Overrides for modes that now match default are removed
+      for (const [brand, brandFile] of Object.entries(brandFiles)) {
+        if (
+          !sourceMode &&
+          exported.modes.includes(brand) &&
+          !exported.modeTokens[brand] &&
+          brandFile !== entry.file &&
+          !keepRepository.has(getTokenKey(exported.variablePath, brand))
+        ) {
+          getFileChanges(brandFile).removals.push(entry.tokenPath);
+          delete brandFiles[brand];
         }
+      }
+
+      updatedFileStructure[exported.variablePath] = {
+        ...entry,
+        ...(Object.keys(brandFiles).length > 0 ? { brandFiles } : {}),
+      };
+    }
+
+    // Variables pulled from the repository that have since been deleted in Figma
+    const exportedCollections = new Set(
+      transformResult.exportedTokens.map(e => e.variablePath.split('/')[0])
+    );
+    for (const [variablePath, entry] of Object.entries(fileStructure)) {
+      if (
+        exportedPaths.has(variablePath) ||
+        !exportedCollections.has(variablePath.split('/')[0]) ||
+        keepRepository.has(getTokenKey(variablePath, sourceMode))
+      ) {
+        continue;
+      }
+
+      console.log(`🗑️ Variable ${variablePath} was deleted in Figma, removing from ${entry.file}`);
+      getFileChanges(entry.file).removals.push(entry.tokenPath);
+      for (const brandFile of Object.values(entry.brandFiles || {})) {
+        getFileChanges(brandFile).removals.push(entry.tokenPath);
+      }
+      delete updatedFileStructure[variablePath];
+    }
+
+    // Styles go back to the file their composite token was pulled from
+    const styleStructure = syncState.styleStructure || {};
+    const updatedStyleStructure: FileStructureMapping = {};
+    const styleExport = await transformStylesToTokens({
+      format: tokenFormat,
+      referenceStyle: config.referenceStyle,
+    });
+
+    for (const exported of styleExport.styles) {
+      const entry = styleStructure[exported.styleName] || {
+        file: exported.kind === 'effect'
+          ? config.shadowTokenFile || getFallbackPath('shadows.json')
+          : getFallbackPath(exported.kind === 'paint' ? 'gradients.json' : 'typography.json'),
+        tokenPath: exported.tokenPath,
+      };
 
-        targetPath = `${baseDir}/${fileName}`;
+      getFileChanges(entry.file).updates.push({ tokenPath: entry.tokenPath, token: exported.token });
+      updatedStyleStructure[exported.styleName] = entry;
+    }
+
+    // Styles pulled from the repository that have since been deleted in Figma.
+    // Styles that still exist but could not be exported are left as they are in the repository.
+    const localStyleNames = new Set(styleExport.styleNames);
+    const styleWarnings = [...styleExport.errors];
+    for (const [styleName, entry] of Object.entries(styleStructure)) {
+      if (updatedStyleStructure[styleName]) {
+        continue;
       }
 
-      console.log(`📁 Generated file path: ${targetPath} for collection file: ${fileName}`);
+      if (localStyleNames.has(styleName)) {
+        updatedStyleStructure[styleName] = entry;
+        styleWarnings.push(`Style ${styleName} could not be exported, left unchanged in ${entry.file}`);
+        continue;
+      }
 
-      const content = formatTokensAsJSON(tokens);
-      files.push({ path: targetPath, content });
+      console.log(`🗑️ Style ${styleName} was deleted in Figma, removing from ${entry.file}`);
+      getFileChanges(entry.file).removals.push(entry.tokenPath);
     }
 
-    // Step 3: Fetch current files to generate changelog
+    // Step 4: Rebuild files from their current content and generate changelog
     sendToUI({ type: 'SYNC_PROGRESS', message: 'Generating changelog...' });
 
+    const files: Array<{ path: string; content: string }> = [];
+
     let totalChanges = {
       added: [] as string[],
       modified: [] as string[],
       removed: [] as string[],
     };
 
-    for (const file of files) {
+    for (const [path, changes] of fileChanges) {
+      let currentContent: string | null = null;
       try {
-        const currentFile = await getTokenFiles(client, [file.path], config.branch);
+        currentContent = (await provider.readFile(path, config.branch)).content;
+      } catch (error) {
+        if (!isNotFoundError(error)) {
+          throw error;
+        }
+        // File doesn't exist yet, it will be created
+      }
 
-        if (currentFile[0] && !currentFile[0].error) {
+      const content = updateTokenFile(
+        currentContent,
+        changes.updates,
+        changes.removals,
+        tokenFormat,
+        config.codeSyntax
+      );
+
+      if (currentContent !== null && content === JSON.stringify(JSON.parse(currentContent), null, 2)) {
+        console.log(`📁 No token changes in ${path}`);
+        continue;
+      }
+
+      console.log(`📁 Updating ${path}: ${changes.updates.length} token(s) written, ${changes.removals.length} removed`);
+      files.push({ path, content });
+
+      try {
+        if (currentContent !== null) {
           // File exists, compare changes
-          const oldTokens = parseStyleDictionary(currentFile[0].content);
-          const newTokens = JSON.parse(file.content);
-          const changes = generateChangeSummary(oldTokens, newTokens);
+          // Compare unresolved tokens so exported references aren't reported as modified
+          const changeSummary = generateChangeSummary(JSON.parse(currentContent), JSON.parse(content));
 
-          totalChanges.added.push(...changes.added);
-          totalChanges.modified.push(...changes.modified);
-          totalChanges.removed.push(...changes.removed);
+          totalChanges.added.push(...changeSummary.added);
+          totalChanges.modified.push(...changeSummary.modified);
+          totalChanges.removed.push(...changeSummary.removed);
         } else {
           // New file - all tokens are "added"
-          const newTokens = JSON.parse(file.content);
-          // Count all tokens in the new file as added
-          const countTokens = (obj: any): number => {
-            let count = 0;
-            for (const value of Object.values(obj)) {
-              if (value && typeof value === 'object' && 'value' in value) {
-                count++;
-              } else if (value && typeof value === 'object') {
-                count += countTokens(value);
-              }
-            }
-            return count;
-          };
-          const tokenCount = countTokens(newTokens);
-          totalChanges.added.push(`${file.path} (${tokenCount} tokens)`);
+          const tokenCount = countTokens(JSON.parse(content));
+          totalChanges.added.push(`${path} (${tokenCount} tokens)`);
         }
       } catch (error) {
-        console.warn(`Could not fetch ${file.path} for comparison:`, error);
+        console.warn(`Could not compare ${path}:`, error);
         // Continue without changelog for this file
       }
     }
 
-    // Step 4: Create Pull Request
-    sendToUI({ type: 'SYNC_PROGRESS', message: 'Creating Pull Request...' });
+    if (files.length === 0) {
+      return {
+        success: true,
+        message: [
+          `Repository is already up to date with Figma variables - no ${provider.changeRequestName} created`,
+          ...styleWarnings.map(w => `⚠ ${w}`),
+          ...(merge ? describeConflicts(merge.conflicts, 'not pushed') : []),
+        ].join('\n'),
+        fileStructure: updatedFileStructure,
+        styleStructure: updatedStyleStructure,
+        snapshot: newSnapshot,
+        conflicts,
+      };
+    }
+
+    // Step 5: Create the change request
+    sendToUI({ type: 'SYNC_PROGRESS', message: `Creating ${provider.changeRequestName}...` });
 
-    const prTitle = generatePRTitle(totalChanges);
-    const prBody = generatePRBody(totalChanges, {
+    const prTitle = generateChangeRequestTitle(totalChanges);
+    const prBody = generateChangeRequestBody(totalChanges, {
       collectionsProcessed: transformResult.collectionsProcessed,
       variablesProcessed: transformResult.variablesProcessed,
     });
 
-    const prResult = await createPullRequest(client, {
+    const prResult = await createChangeRequest(provider, {
       title: prTitle,
       body: prBody,
       baseBranch: config.branch || 'main',
       files,
+      reviewers: config.reviewers,
     });
 
     if (!prResult.success) {
@@ -683,26 +1556,35 @@ async function pushTokensToGitHub(
       };
     }
 
-    // Step 5: Success!
+    // Step 6: Success!
     const summary = [
-      `✓ Successfully created Pull Request`,
+      `✓ Successfully created ${provider.changeRequestName}`,
       `✓ Files: ${files.length} updated`,
       `✓ Variables: ${transformResult.variablesProcessed} exported`,
-      `✓ PR: ${prResult.prUrl}`,
+      ...(styleExport.styles.length > 0 ? [`✓ Styles: ${styleExport.styles.length} exported`] : []),
+      ...styleWarnings.map(w => `⚠ ${w}`),
+      ...(exportedModes.size > 0 ? [`✓ Mode overrides: ${Array.from(exportedModes).join(', ')}`] : []),
+      ...(merge && merge.theirs.length > 0 ? [`✓ Kept ${merge.theirs.length} repository change(s) made since the last sync`] : []),
+      ...(merge ? describeConflicts(merge.conflicts, 'not pushed') : []),
+      `✓ ${provider.changeRequestName}: ${prResult.url}`,
     ];
 
     return {
       success: true,
       message: summary.join('\n'),
-      prUrl: prResult.prUrl,
+      prUrl: prResult.url,
+      fileStructure: updatedFileStructure,
+      styleStructure: updatedStyleStructure,
+      snapshot: newSnapshot,
+      conflicts,
     };
   } catch (error) {
     console.error('Push failed:', error);
 
-    if (error instanceof GitHubAPIError) {
+    if (error instanceof GitProviderError) {
       return {
         success: false,
-        message: `GitHub API Error: ${error.message}`,
+        message: `${error.provider} API Error: ${error.message}`,
       };
     }
 
@@ -1,6 +1,9 @@
-import { PluginSettings } from '../shared/types';
+import { PluginSettings, SyncState } from '../shared/types';
 
 const SETTINGS_KEY = 'plugin-settings';
+const SYNC_STATE_KEY = 'sync-state';
+// Plugin data entries are limited to 100 kB, so the sync state is split over several entries
+const SYNC_STATE_CHUNK_LENGTH = 30000;
 
 export async function loadSettings(): Promise<PluginSettings> {
   try {
@@ -21,3 +24,60 @@ export async function saveSettings(settings: PluginSettings): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Save the settings edited in the UI, keeping the last sync recorded by the plugin
+ * (the UI only knows the settings it loaded when it opened)
+ */
+export async function saveUserSettings(settings: PluginSettings): Promise<boolean> {
+  const currentSettings = await loadSettings();
+  return saveSettings({
+    ...currentSettings,
+    github: settings.github,
+    modeMapping: settings.modeMapping,
+  });
+}
+
+/**
+ * Load the sync state of the current document
+ */
+export function loadSyncState(): SyncState {
+  try {
+    const chunks = Number(figma.root.getPluginData(`${SYNC_STATE_KEY}-chunks`)) || 0;
+    let json = '';
+    for (let i = 0; i < chunks; i++) {
+      json += figma.root.getPluginData(`${SYNC_STATE_KEY}-${i}`);
+    }
+    return json ? JSON.parse(json) : {};
+  } catch (error) {
+    console.error('Failed to load sync state:', error);
+    return {};
+  }
+}
+
+/**
+ * Save the sync state in the current document, so it syncs against its own last state
+ */
+export function saveSyncState(state: SyncState): boolean {
+  try {
+    const json = JSON.stringify(state);
+    const previousChunks = Number(figma.root.getPluginData(`${SYNC_STATE_KEY}-chunks`)) || 0;
+    const chunks = Math.ceil(json.length / SYNC_STATE_CHUNK_LENGTH);
+
+    for (let i = 0; i < chunks; i++) {
+      figma.root.setPluginData(
+        `${SYNC_STATE_KEY}-${i}`,
+        json.substring(i * SYNC_STATE_CHUNK_LENGTH, (i + 1) * SYNC_STATE_CHUNK_LENGTH)
+      );
+    }
+    // An empty value removes the entries left over from a larger state
+    for (let i = chunks; i < previousChunks; i++) {
+      figma.root.setPluginData(`${SYNC_STATE_KEY}-${i}`, '');
+    }
+    figma.root.setPluginData(`${SYNC_STATE_KEY}-chunks`, String(chunks));
+    return true;
+  } catch (error) {
+    console.error('Failed to save sync state:', error);
+    return false;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Dev Mode code syntax of variables
+ * Generates the per-platform names developers see for a variable from its token path,
+ * or takes an explicit map from `$extensions`
+ */
+
+import { CodeSyntaxConfig, CodeSyntaxNaming } from '../../shared/types';
+import { SYNC_EXTENSION } from '../../shared/token-format';
+
+export type CodeSyntaxValues = { [platform in CodeSyntaxPlatform]?: string };
+
+const PLATFORMS: Array<{ platform: CodeSyntaxPlatform; key: keyof CodeSyntaxConfig }> = [
+  { platform: 'WEB', key: 'web' },
+  { platform: 'ANDROID', key: 'android' },
+  { platform: 'iOS', key: 'ios' },
+];
+
+/**
+ * Split token path segments into lowercase words ("fontSize/200" -> ["font", "size", "200"])
+ */
+function splitWords(parts: string[]): string[] {
+  return parts
+    .join(' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w.toLowerCase());
+}
+
+/**
+ * Format a token path as a name in a naming case
+ */
+function formatName(tokenPath: string[], naming: CodeSyntaxNaming): string {
+  const words = splitWords(naming.prefix ? [naming.prefix, ...tokenPath] : tokenPath);
+  const capitalize = (w: string) => w.charAt(0).toUpperCase() + w.slice(1);
+
+  switch (naming.case) {
+    case 'camel':
+      return words.map((w, i) => (i === 0 ? w : capitalize(w))).join('');
+    case 'pascal':
+      return words.map(capitalize).join('');
+    case 'snake':
+      return words.join('_');
+    default:
+      return words.join('-');
+  }
+}
+
+/**
+ * Get the code syntax generated for a token path
+ */
+export function getDefaultCodeSyntax(tokenPath: string[], config: CodeSyntaxConfig | undefined): CodeSyntaxValues {
+  const values: CodeSyntaxValues = {};
+
+  for (const { platform, key } of PLATFORMS) {
+    const naming = config?.[key];
+    if (!naming) {
+      continue;
+    }
+
+    const name = formatName(tokenPath, naming);
+    values[platform] = platform === 'WEB' ? `var(--${name})` : name;
+  }
+
+  return values;
+}
+
+/**
+ * Get the explicit code syntax of a token (`$extensions["figma-token-sync"].codeSyntax`), if any
+ */
+export function getExplicitCodeSyntax(extensions: { [key: string]: any } | undefined): CodeSyntaxValues | null {
+  const codeSyntax = extensions?.[SYNC_EXTENSION]?.codeSyntax;
+  return codeSyntax && typeof codeSyntax === 'object' ? codeSyntax : null;
+}
+
+/**
+ * Get the code syntax of a pulled token: its explicit map, or the names generated from its path.
+ * Null when neither is set, so code syntax entered in Figma is left alone.
+ */
+export function getTokenCodeSyntax(
+  token: { path: string; extensions?: { [key: string]: any } },
+  config: CodeSyntaxConfig | undefined
+): CodeSyntaxValues | null {
+  const explicit = getExplicitCodeSyntax(token.extensions);
+  if (explicit) {
+    return explicit;
+  }
+  return PLATFORMS.some(({ key }) => config?.[key]) ? getDefaultCodeSyntax(token.path.split('/'), config) : null;
+}
+
+/**
+ * Check if two code syntax maps define the same names
+ */
+export function codeSyntaxEqual(a: CodeSyntaxValues, b: CodeSyntaxValues): boolean {
+  return PLATFORMS.every(({ platform }) => a[platform] === b[platform]);
+}
+
+/**
+ * Set the code syntax of a variable, removing platforms without a name
+ */
+export function applyVariableCodeSyntax(variable: Variable, values: CodeSyntaxValues): void {
+  for (const { platform } of PLATFORMS) {
+    const value = values[platform];
+    if (value === variable.codeSyntax[platform]) {
+      continue;
+    }
+
+    if (value) {
+      variable.setVariableCodeSyntax(platform, value);
+    } else {
+      variable.removeVariableCodeSyntax(platform);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Tokens Studio color modifiers
+ * Applies the lighten/darken/mix/alpha modifier of `$extensions["studio.tokens"].modify`
+ * to a token's color before it is converted
+ */
+
+import { ColorModification, formatHex, modifyColor, parseCssColor } from '../../shared/colors';
+
+export const STUDIO_EXTENSION = 'studio.tokens';
+
+const MODIFIER_TYPES = ['lighten', 'darken', 'mix', 'alpha'];
+const MODIFIER_SPACES = ['srgb', 'hsl', 'lch', 'p3'];
+
+/**
+ * A color modifier as Tokens Studio writes it; value and color may be references
+ */
+export interface ColorModifier {
+  type: string;
+  value: any;
+  space?: string;
+  color?: any;
+}
+
+/**
+ * Get the color modifier of a token, if any
+ */
+export function getColorModifier(extensions: { [key: string]: any } | undefined): ColorModifier | null {
+  const modify = extensions?.[STUDIO_EXTENSION]?.modify;
+  return modify && typeof modify === 'object' && modify.type ? modify : null;
+}
+
+/**
+ * Parse a modifier amount ("0.2", 0.2 or "20%")
+ */
+function parseAmount(value: any): number {
+  const amount = typeof value === 'string' && value.trim().endsWith('%')
+    ? parseFloat(value) / 100
+    : Number(value);
+
+  if (typeof value === 'boolean' || value === '' || isNaN(amount)) {
+    throw new Error(`Invalid color modifier amount: ${JSON.stringify(value)}`);
+  }
+  return amount;
+}
+
+/**
+ * Apply a color modifier to a resolved color value, returning the modified color as hex.
+ * `resolve` turns references in the modifier's value and color into literal values.
+ */
+export function applyColorModifier(value: any, modifier: ColorModifier, resolve: (value: any) => any): string {
+  const type = String(modifier.type).toLowerCase();
+  if (!MODIFIER_TYPES.includes(type)) {
+    throw new Error(`Unsupported color modifier: ${modifier.type}`);
+  }
+
+  const space = modifier.space ? String(modifier.space).toLowerCase() : 'srgb';
+  if (!MODIFIER_SPACES.includes(space)) {
+    throw new Error(`Unsupported color modifier space: ${modifier.space}`);
+  }
+
+  const color = typeof value === 'string' ? parseCssColor(value) : null;
+  if (!color) {
+    throw new Error(`Can't ${type} ${JSON.stringify(value)}, it isn't a color`);
+  }
+
+  const modification: ColorModification = {
+    type: type as ColorModification['type'],
+    amount: parseAmount(resolve(modifier.value)),
+    space: space as ColorModification['space'],
+  };
+
+  if (type === 'mix') {
+    const mixed = resolve(modifier.color);
+    modification.color = (typeof mixed === 'string' && parseCssColor(mixed)) || undefined;
+    if (!modification.color) {
+      throw new Error(`Can't mix with ${JSON.stringify(mixed)}, it isn't a color`);
+    }
+  }
+
+  return formatHex(modifyColor(color, modification));
+}
+
+/**
+ * Remove the color modifier of a token, dropping extensions left empty
+ */
+export function removeColorModifier<T extends { $extensions?: { [key: string]: any } }>(token: T): T {
+  const { modify, ...studio } = (token.$extensions && token.$extensions[STUDIO_EXTENSION]) || ({} as any);
+  const extensions = { ...token.$extensions, [STUDIO_EXTENSION]: studio };
+
+  if (Object.keys(studio).length === 0) {
+    delete extensions[STUDIO_EXTENSION];
+  }
+
+  const result: T = { ...token, $extensions: extensions };
+  if (Object.keys(extensions).length === 0) {
+    delete result.$extensions;
+  }
+  return result;
+}
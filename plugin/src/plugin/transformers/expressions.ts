@@ -0,0 +1,318 @@
+/**
+ * Math expressions in token values
+ * Evaluates arithmetic like "{spacing.base} * 2" or "calc({size.md} + 4px)",
+ * resolving embedded references and checking that units are compatible
+ */
+
+interface Quantity {
+  value: number;
+  unit: string; // "" for plain numbers
+}
+
+type ExpressionNode =
+  | { kind: 'number'; quantity: Quantity }
+  | { kind: 'reference'; path: string }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+type ExpressionToken =
+  | { kind: 'number'; quantity: Quantity }
+  | { kind: 'reference'; path: string }
+  | { kind: 'function'; name: string }
+  | { kind: 'symbol'; symbol: string };
+
+// Functions expressions may call, with the number of arguments they take (-1 = one or more)
+const FUNCTIONS: { [name: string]: number } = {
+  calc: 1,
+  min: -1,
+  max: -1,
+  round: 1,
+  floor: 1,
+  ceil: 1,
+  abs: 1,
+};
+
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z]+|%)?$/i;
+
+/**
+ * Check if a value is worth evaluating: it embeds references, uses calc(),
+ * or has an operator with spaces around it ("4px * 2", but not "16/9" or "2024-01-01")
+ */
+function looksLikeExpression(text: string): boolean {
+  const trimmed = text.trim();
+  return (
+    (/\{[^{}]+\}/.test(trimmed) && !/^\{[^{}]+\}$/.test(trimmed)) ||
+    /^calc\(/i.test(trimmed) ||
+    /\s[-+*/]\s/.test(trimmed)
+  );
+}
+
+/**
+ * Split an expression into tokens, or return null if it contains anything that isn't math
+ */
+function tokenize(text: string): ExpressionToken[] | null {
+  const tokens: ExpressionToken[] = [];
+  let rest = text.trim();
+
+  while (rest) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = rest.match(/^\s+/))) {
+      // Whitespace separates tokens
+    } else if ((match = rest.match(/^\{([^{}]+)\}/))) {
+      tokens.push({ kind: 'reference', path: match[1].trim() });
+    } else if ((match = rest.match(/^((?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z]+|%)?/i))) {
+      tokens.push({ kind: 'number', quantity: { value: parseFloat(match[1]), unit: (match[2] || '').toLowerCase() } });
+    } else if ((match = rest.match(/^([a-z]+)(?=\()/i)) && match[1].toLowerCase() in FUNCTIONS) {
+      tokens.push({ kind: 'function', name: match[1].toLowerCase() });
+    } else if ((match = rest.match(/^[-+*/(),]/))) {
+      tokens.push({ kind: 'symbol', symbol: match[0] });
+    } else {
+      return null;
+    }
+
+    rest = rest.slice(match[0].length);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse expression tokens into a tree, or return null if they aren't a valid expression
+ * Grammar: sum = product (("+" | "-") product)*, product = unary (("*" | "/") unary)*,
+ * unary = "-" unary | number | reference | "(" sum ")" | function "(" sum ("," sum)* ")"
+ */
+function parse(tokens: ExpressionToken[]): ExpressionNode | null {
+  let position = 0;
+
+  const isSymbol = (symbol: string) => {
+    const token = tokens[position];
+    return token !== undefined && token.kind === 'symbol' && token.symbol === symbol;
+  };
+
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) {
+      throw new SyntaxError(`Expected "${symbol}"`);
+    }
+    position++;
+  };
+
+  const parseSum = (): ExpressionNode => {
+    let node = parseProduct();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[position++] as { symbol: string }).symbol;
+      node = { kind: 'binary', operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): ExpressionNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = (tokens[position++] as { symbol: string }).symbol;
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = tokens[position];
+    if (!token) {
+      throw new SyntaxError('Unexpected end of expression');
+    }
+
+    if (isSymbol('-') || isSymbol('+')) {
+      position++;
+      const operand = parseUnary();
+      return token.kind === 'symbol' && token.symbol === '-' ? { kind: 'negate', operand } : operand;
+    }
+
+    if (isSymbol('(')) {
+      position++;
+      const node = parseSum();
+      expect(')');
+      return node;
+    }
+
+    position++;
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'number', quantity: token.quantity };
+      case 'reference':
+        return { kind: 'reference', path: token.path };
+      case 'function': {
+        expect('(');
+        const args = [parseSum()];
+        while (isSymbol(',')) {
+          position++;
+          args.push(parseSum());
+        }
+        expect(')');
+
+        const arity = FUNCTIONS[token.name];
+        if (arity !== -1 && args.length !== arity) {
+          throw new SyntaxError(`${token.name}() takes ${arity} argument`);
+        }
+        return { kind: 'call', name: token.name, args };
+      }
+      default:
+        throw new SyntaxError(`Unexpected "${token.symbol}"`);
+    }
+  };
+
+  try {
+    const node = parseSum();
+    return position === tokens.length ? node : null;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a referenced token value as a quantity
+ */
+function toQuantity(value: any, path: string): Quantity {
+  if (typeof value === 'number') {
+    return { value, unit: '' };
+  }
+
+  const match = typeof value === 'string' ? value.trim().match(NUMBER_PATTERN) : null;
+  if (!match) {
+    throw new Error(`{${path}} is ${JSON.stringify(value)}, not a number`);
+  }
+
+  return { value: parseFloat(match[1]), unit: (match[2] || '').toLowerCase() };
+}
+
+/**
+ * Get the unit two quantities share; a plain number takes the unit of the other quantity
+ */
+function commonUnit(a: Quantity, b: Quantity, operation: string): string {
+  if (a.unit && b.unit && a.unit !== b.unit) {
+    throw new Error(`Can't ${operation} ${a.unit} and ${b.unit}`);
+  }
+  return a.unit || b.unit;
+}
+
+/**
+ * Get the reference paths of an expression tree
+ */
+function getReferences(node: ExpressionNode): string[] {
+  switch (node.kind) {
+    case 'reference':
+      return [node.path];
+    case 'negate':
+      return getReferences(node.operand);
+    case 'binary':
+      return [...getReferences(node.left), ...getReferences(node.right)];
+    case 'call':
+      return node.args.reduce<string[]>((all, arg) => all.concat(getReferences(arg)), []);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluate an expression tree with its references' values
+ */
+function evaluate(node: ExpressionNode, references: Map<string, any>): Quantity {
+  switch (node.kind) {
+    case 'number':
+      return node.quantity;
+    case 'reference':
+      return toQuantity(references.get(node.path), node.path);
+    case 'negate': {
+      const operand = evaluate(node.operand, references);
+      return { value: -operand.value, unit: operand.unit };
+    }
+    case 'binary': {
+      const left = evaluate(node.left, references);
+      const right = evaluate(node.right, references);
+
+      switch (node.operator) {
+        case '+':
+          return { value: left.value + right.value, unit: commonUnit(left, right, 'add') };
+        case '-':
+          return { value: left.value - right.value, unit: commonUnit(left, right, 'subtract') };
+        case '*':
+          if (left.unit && right.unit) {
+            throw new Error(`Can't multiply ${left.unit} by ${right.unit}`);
+          }
+          return { value: left.value * right.value, unit: left.unit || right.unit };
+        default:
+          if (right.value === 0) {
+            throw new Error('Division by zero');
+          }
+          if (right.unit && right.unit !== left.unit) {
+            throw new Error(`Can't divide ${left.unit || 'a number'} by ${right.unit}`);
+          }
+          // Dividing quantities of the same unit gives a ratio
+          return { value: left.value / right.value, unit: right.unit ? '' : left.unit };
+      }
+    }
+    case 'call': {
+      const args = node.args.map((arg) => evaluate(arg, references));
+      const [first] = args;
+
+      switch (node.name) {
+        case 'min':
+        case 'max': {
+          const unit = args.reduce((u, arg) => commonUnit({ value: 0, unit: u }, arg, 'compare'), '');
+          const values = args.map((arg) => arg.value);
+          return { value: node.name === 'min' ? Math.min(...values) : Math.max(...values), unit };
+        }
+        case 'round':
+          return { value: Math.round(first.value), unit: first.unit };
+        case 'floor':
+          return { value: Math.floor(first.value), unit: first.unit };
+        case 'ceil':
+          return { value: Math.ceil(first.value), unit: first.unit };
+        case 'abs':
+          return { value: Math.abs(first.value), unit: first.unit };
+        default:
+          return first;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate a token value if it is a math expression ("{spacing.base} * 2", "calc({size.md} + 4px)").
+ * References are resolved to literal values with `resolveReference`, whose errors are thrown as they are.
+ * Returns a number, or a dimension string when the result has a unit ("16px");
+ * returns null when the value isn't an expression and throws when an expression can't be evaluated.
+ */
+export function evaluateExpression(text: string, resolveReference: (path: string) => any): number | string | null {
+  if (!looksLikeExpression(text)) {
+    return null;
+  }
+
+  const tokens = tokenize(text);
+  const tree = tokens && parse(tokens);
+  if (!tree) {
+    return null;
+  }
+
+  const references = new Map<string, any>();
+  for (const path of getReferences(tree)) {
+    references.set(path, resolveReference(path));
+  }
+
+  let result: Quantity;
+  try {
+    result = evaluate(tree, references);
+  } catch (error) {
+    throw new Error(`Invalid expression "${text}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isFinite(result.value)) {
+    throw new Error(`Invalid expression "${text}": result is not a number`);
+  }
+
+  const value = Math.round(result.value * 10000) / 10000;
+  return result.unit ? `${value}${result.unit}` : value;
+}
@@ -5,19 +5,71 @@
 import {
   getAllVariableCollections,
   getVariablesInCollection,
+  getComparableValue,
   rgbaToHex,
+  formatDimension,
+  getVariableUnit,
+  getVariableColorSource,
+  getVariableValueSource,
+  DEPRECATED_GROUP,
+  VariableModeValue,
 } from '../figma-api/variables';
-import { StyleDictionaryTokens } from '../../shared/types';
+import {
+  StyleDictionaryTokens,
+  StyleDictionaryToken,
+  TokenFormat,
+  FlatTokenMap,
+  CodeSyntaxConfig,
+} from '../../shared/types';
+import {
+  convertTokensToFormat,
+  convertTokenToFormat,
+  countTokens,
+  detectTokenFormat,
+  getTokenSyncExtension,
+  isDesignToken,
+  isDTCGToken,
+  setTokenSyncExtension,
+  setTokenVariableId,
+} from '../../shared/token-format';
+import { getTokenKey, tokenValuesEqual } from '../../shared/three-way-merge';
+import { parseCssColor, formatHex, formatColorLike } from '../../shared/colors';
+import { getDefaultScopes, getExplicitScopes, scopesEqual } from './scopes';
+import { codeSyntaxEqual, getDefaultCodeSyntax, getExplicitCodeSyntax } from './code-syntax';
+import { getColorModifier, removeColorModifier } from './color-modifiers';
 
 export interface TransformToSDResult {
   success: boolean;
-  tokens: { [path: string]: StyleDictionaryTokens };
+  tokens: { [path: string]: StyleDictionaryTokens }; // Default mode tokens
+  modeTokens: { [modeName: string]: { [path: string]: StyleDictionaryTokens } }; // Per-mode overrides of Default
+  exportedTokens: ExportedToken[]; // Every exported variable, for writing back to its source file
+
   variablesProcessed: number;
   collectionsProcessed: number;
   errors: string[];
   warnings: string[];
 }
 
+/**
+ * A single exported variable with its default token and per-mode overrides
+ */
+export interface ExportedToken {
+  variablePath: string; // "Collection/variable/path" - key in FileStructureMapping
+  fileName: string; // Collection file the token is written to when it has no recorded source
+  tokenPath: string[]; // Path of the token in that collection file
+  token: StyleDictionaryToken; // Default mode token
+  modeTokens: { [modeName: string]: StyleDictionaryToken }; // Modes whose value differs from default
+  modes: string[]; // All exported non-default modes of the variable's collection
+}
+
+/**
+ * A token to write at a path within a token file
+ */
+export interface TokenFileUpdate {
+  tokenPath: string[];
+  token: StyleDictionaryToken;
+}
+
 /**
  * Get Style Dictionary type from Figma variable type
  */
@@ -64,6 +116,89 @@ function convertFigmaValue(
   return String(value);
 }
 
+/**
+ * Convert a Figma color to a token value in the syntax of the value it was pulled from
+ * Unchanged colors keep their original value
+ */
+function convertColorToSource(color: RGBA, source: string): string {
+  const sourceColor = parseCssColor(source);
+  if (sourceColor && formatHex(sourceColor) === rgbaToHex(color)) {
+    return source;
+  }
+  return formatColorLike(color, source);
+}
+
+/**
+ * Check if a Figma variable value is an alias to another variable
+ */
+function isVariableAlias(value: VariableValue): value is VariableAlias {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'type' in value &&
+    value.type === 'VARIABLE_ALIAS'
+  );
+}
+
+/**
+ * Build the token reference path ("collection.group.name") for a variable
+ */
+function getReferencePath(collectionName: string, variableName: string): string {
+  return [getCollectionKey(collectionName), ...variableName.split('/')].join('.');
+}
+
+/**
+ * Map every local variable id to its token reference path
+ */
+export async function buildReferencePaths(
+  collections: Array<{ name: string; variableIds: string[] }>
+): Promise<Map<string, string>> {
+  const referencePaths = new Map<string, string>();
+
+  for (const collection of collections) {
+    for (const id of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(id);
+      if (variable) {
+        referencePaths.set(id, getReferencePath(collection.name, variable.name));
+      }
+    }
+  }
+
+  return referencePaths;
+}
+
+/**
+ * Convert a Figma variable alias to a Style Dictionary reference
+ * ("{color.base.red}" or "{color.base.red.value}")
+ */
+export async function convertAliasToReference(
+  alias: VariableAlias,
+  referencePaths: Map<string, string>,
+  valueSuffix: boolean
+): Promise<string> {
+  let path = referencePaths.get(alias.id);
+
+  if (!path) {
+    // Not a local variable (e.g. from a library) - look it up directly
+    const target = await figma.variables.getVariableByIdAsync(alias.id);
+    if (!target) {
+      throw new Error(`Aliased variable ${alias.id} not found`);
+    }
+
+    const targetCollection = await figma.variables.getVariableCollectionByIdAsync(
+      target.variableCollectionId
+    );
+    if (!targetCollection) {
+      throw new Error(`Collection of aliased variable ${target.name} not found`);
+    }
+
+    path = getReferencePath(targetCollection.name, target.name);
+    referencePaths.set(alias.id, path);
+  }
+
+  return valueSuffix ? `{${path}.value}` : `{${path}}`;
+}
+
 /**
  * Build nested token structure from flat path
  */
@@ -87,6 +222,20 @@ function setNestedValue(
   current[lastPart] = value;
 }
 
+/**
+ * Add a collection's tokens to an output file, merging with tokens already in it
+ */
+function addTokensToFile(
+  files: { [path: string]: StyleDictionaryTokens },
+  fileName: string,
+  tokens: StyleDictionaryTokens
+): void {
+  if (!files[fileName]) {
+    files[fileName] = {};
+  }
+  Object.assign(files[fileName], tokens);
+}
+
 /**
  * Get collection name in lowercase (for token path)
  */
@@ -101,10 +250,18 @@ function getCollectionKey(collectionName: string): string {
 export async function transformFigmaToTokens(options: {
   collectionsToInclude?: string[]; // Filter to specific collections
   organizeByCollection?: boolean; // Create separate token objects per collection
+  format?: TokenFormat; // Output dialect (defaults to Style Dictionary)
+  referenceStyle?: 'path' | 'value-suffix'; // How aliases are written: {a.b} or {a.b.value}
+  includeAllModes?: boolean; // Export non-default modes as overrides in modeTokens
+  modeMapping?: { [figmaModeName: string]: string }; // Maps Figma mode names to output (brand) names
+  baseFontSize?: number; // Font size rem and em dimensions are relative to
+  colorFormat?: 'hex' | 'original'; // Write colors as hex or in the syntax they were pulled in
 } = {}): Promise<TransformToSDResult> {
   const result: TransformToSDResult = {
     success: true,
     tokens: {},
+    modeTokens: {},
+    exportedTokens: [],
     variablesProcessed: 0,
     collectionsProcessed: 0,
     errors: [],
@@ -119,6 +276,10 @@ export async function transformFigmaToTokens(options: {
       return result;
     }
 
+    // Aliases are exported as references to the aliased variable's token path
+    const referencePaths = await buildReferencePaths(collections);
+    const valueSuffix = options.referenceStyle === 'value-suffix' && options.format !== 'dtcg';
+
     for (const collectionInfo of collections) {
       // Filter by collection name if specified
       if (
@@ -152,26 +313,62 @@ export async function transformFigmaToTokens(options: {
           [collectionKey]: {},
         };
 
+        // Non-default modes only receive tokens that differ from the default mode
+        const defaultModeId = collection.defaultModeId;
+        const otherModes = options.includeAllModes
+          ? collection.modes.filter((m) => m.modeId !== defaultModeId)
+          : [];
+        const modeCollectionTokens = new Map<string, StyleDictionaryTokens>(
+          otherModes.map((m) => [m.modeId, { [collectionKey]: {} }])
+        );
+
+        // Convert a variable's value in a mode to a token value
+        // Expressions are written as pulled while the variable keeps their result,
+        // dimensions in the unit their token had and colors optionally in the syntax they were pulled in
+        const convertModeValue = async (variable: Variable, modeId: string) => {
+          const value = variable.valuesByMode[modeId];
+          if (value === undefined) {
+            return undefined;
+          }
+          if (isVariableAlias(value)) {
+            return await convertAliasToReference(value, referencePaths, valueSuffix);
+          }
+          const source = getVariableValueSource(variable, modeId);
+          if (source && tokenValuesEqual(getComparableValue(value, variable.resolvedType), source.resolved)) {
+            return source.value;
+          }
+          if (variable.resolvedType === 'FLOAT' && typeof value === 'number') {
+            return formatDimension(value, getVariableUnit(variable, modeId), options.baseFontSize);
+          }
+          const colorSource = options.colorFormat === 'original' ? getVariableColorSource(variable, modeId) : undefined;
+          if (variable.resolvedType === 'COLOR' && colorSource) {
+            return convertColorToSource(value as RGBA, colorSource);
+          }
+          return convertFigmaValue(value, variable.resolvedType);
+        };
+
         // Process each variable
         for (const variable of variables) {
+          // Variables pruned on pull are no longer part of the repository
+          if (variable.name.startsWith(`${DEPRECATED_GROUP}/`)) {
+            continue;
+          }
+
           try {
             // Get value from default mode
-            const defaultModeId = collection.defaultModeId;
-            const value = variable.valuesByMode[defaultModeId];
+            const sdValue = await convertModeValue(variable, defaultModeId);
 
-            if (value === undefined) {
+            if (sdValue === undefined) {
               result.warnings.push(
                 `Variable ${variable.name} has no value for default mode`
               );
               continue;
             }
 
-            // Convert value
             const sdType = getStyleDictionaryType(variable.resolvedType);
-            const sdValue = convertFigmaValue(value, variable.resolvedType);
 
             // Create token object
-            const token: any = {
+            let token: any = {
               value: sdValue,
               type: sdType,
             };
@@ -181,10 +378,44 @@ export async function transformFigmaToTokens(options: {
               token.comment = variable.description;
             }
 
+            // Remember the variable so renaming the token in the repository renames it on pull
+            token = setTokenVariableId(token, variable.id);
+
+            // Scopes and code syntax are kept only where they differ from the generated ones, see writeTokenAtPath
+            if (variable.resolvedType !== 'BOOLEAN') {
+              token = setTokenSyncExtension(token, { scopes: [...variable.scopes] });
+            }
+            token = setTokenSyncExtension(token, {
+              codeSyntax: Object.keys(variable.codeSyntax).length > 0 ? { ...variable.codeSyntax } : undefined,
+            });
+
             // Build nested path: collection/variable/path
             const fullPath = `${collectionKey}/${variable.name}`;
             setNestedValue(collectionTokens, fullPath, token);
 
+            const exported: ExportedToken = {
+              variablePath: `${collectionInfo.name}/${variable.name}`,
+              fileName: options.organizeByCollection ? `${collectionKey}.json` : 'tokens.json',
+              tokenPath: fullPath.split('/'),
+              token,
+              modeTokens: {},
+              modes: otherModes.map((m) => options.modeMapping?.[m.name] || m.name),
+            };
+
+            // Emit overrides for modes where the value differs from default
+            for (const mode of otherModes) {
+              const modeValue = await convertModeValue(variable, mode.modeId);
+              if (modeValue === undefined || modeValue === sdValue) {
+                continue;
+              }
+
+              const modeToken = { ...token, value: modeValue };
+              setNestedValue(modeCollectionTokens.get(mode.modeId), fullPath, modeToken);
+              exported.modeTokens[options.modeMapping?.[mode.name] || mode.name] = modeToken;
+            }
+
+            result.exportedTokens.push(exported);
+
             result.variablesProcessed++;
           } catch (error) {
             result.errors.push(
@@ -194,15 +425,22 @@ export async function transformFigmaToTokens(options: {
         }
 
         // Store tokens for this collection
-        if (options.organizeByCollection) {
-          // Each collection gets its own file
-          result.tokens[`${collectionKey}.json`] = collectionTokens;
-        } else {
-          // Merge all collections into one token object
-          if (!result.tokens['tokens.json']) {
-            result.tokens['tokens.json'] = {};
+        const fileName = options.organizeByCollection
+          ? `${collectionKey}.json` // Each collection gets its own file
+          : 'tokens.json'; // Merge all collections into one token object
+        addTokensToFile(result.tokens, fileName, collectionTokens);
+
+        for (const mode of otherModes) {
+          const modeTokens = modeCollectionTokens.get(mode.modeId)!;
+          if (Object.keys(modeTokens[collectionKey]).length === 0) {
+            continue;
           }
-          Object.assign(result.tokens['tokens.json'], collectionTokens);
+
+          const outputName = options.modeMapping?.[mode.name] || mode.name;
+          if (!result.modeTokens[outputName]) {
+            result.modeTokens[outputName] = {};
+          }
+          addTokensToFile(result.modeTokens[outputName], fileName, modeTokens);
         }
 
         result.collectionsProcessed++;
@@ -213,6 +451,18 @@ export async function transformFigmaToTokens(options: {
       }
     }
 
+    // Convert to the requested output dialect
+    if (options.format && options.format !== 'style-dictionary') {
+      for (const [fileName, tokens] of Object.entries(result.tokens)) {
+        result.tokens[fileName] = convertTokensToFormat(tokens, options.format);
+      }
+      for (const files of Object.values(result.modeTokens)) {
+        for (const [fileName, tokens] of Object.entries(files)) {
+          files[fileName] = convertTokensToFormat(tokens, options.format);
+        }
+      }
+    }
+
     result.success = result.errors.length === 0;
   } catch (error) {
     result.success = false;
@@ -224,11 +474,157 @@ export async function transformFigmaToTokens(options: {
   return result;
 }
 
+/**
+ * Flatten variable values to comparable values for three-way merging
+ * Aliases are represented as "{Collection/variable/path}"
+ */
+export function flattenVariableModeValues(values: VariableModeValue[]): FlatTokenMap {
+  const variablePaths = new Map(values.map((v) => [v.variableId, v.variablePath]));
+  const tokens: FlatTokenMap = {};
+
+  for (const entry of values) {
+    const key = getTokenKey(entry.variablePath, entry.mode);
+
+    if (isVariableAlias(entry.value)) {
+      // Aliases to remote (library) variables are compared by id
+      tokens[key] = `{${variablePaths.get(entry.value.id) || entry.value.id}}`;
+    } else {
+      tokens[key] = getComparableValue(entry.value, entry.resolvedType);
+    }
+  }
+
+  return tokens;
+}
+
 /**
  * Format tokens as JSON string
+ * Style Dictionary shaped tokens are converted when a different dialect is requested
+ */
+export function formatTokensAsJSON(
+  tokens: StyleDictionaryTokens,
+  format: TokenFormat = 'style-dictionary'
+): string {
+  return JSON.stringify(convertTokensToFormat(tokens, format), null, 2);
+}
+
+/**
+ * Write a token into a token file tree, keeping the properties of an existing token
+ * (type, extensions, ...) and the dialect of the file
+ */
+function writeTokenAtPath(
+  tree: any,
+  tokenPath: string[],
+  token: StyleDictionaryToken,
+  format: TokenFormat,
+  codeSyntax?: CodeSyntaxConfig
+): void {
+  let current = tree;
+  let groupType: string | undefined = typeof tree.$type === 'string' ? tree.$type : undefined;
+  for (const part of tokenPath.slice(0, -1)) {
+    if (!current[part] || typeof current[part] !== 'object') {
+      current[part] = {};
+    }
+    current = current[part];
+    if (typeof current.$type === 'string') {
+      groupType = current.$type;
+    }
+  }
+
+  const key = tokenPath[tokenPath.length - 1];
+  const existing = current[key];
+  const previousValue = isDTCGToken(existing) ? existing.$value : existing && existing.value;
+
+  // Scopes the token gets anyway from its type and path aren't written
+  const scopes = getExplicitScopes(token.$extensions);
+  const type = existing ? existing.$type || existing.type || groupType : token.type || groupType;
+  if (scopes && scopesEqual(scopes, getDefaultScopes(tokenPath, type, token.value))) {
+    token = setTokenSyncExtension(token, { scopes: undefined });
+  }
+  const explicitCodeSyntax = getExplicitCodeSyntax(token.$extensions);
+  if (explicitCodeSyntax && codeSyntaxEqual(explicitCodeSyntax, getDefaultCodeSyntax(tokenPath, codeSyntax))) {
+    token = setTokenSyncExtension(token, { codeSyntax: undefined });
+  }
+
+  if (isDTCGToken(existing)) {
+    const converted = convertTokenToFormat(token, 'dtcg');
+    current[key] = { ...existing, $value: converted.$value };
+    if (converted.$description) {
+      current[key].$description = converted.$description;
+    }
+  } else if (isDesignToken(existing)) {
+    current[key] = { ...existing, value: token.value };
+    if (token.comment) {
+      current[key].comment = token.comment;
+    }
+  } else {
+    current[key] = convertTokenToFormat(token, format);
+    return;
+  }
+
+  // A color edited in Figma is written with its modifier already applied
+  const newValue = isDTCGToken(current[key]) ? current[key].$value : current[key].value;
+  if (getColorModifier(current[key].$extensions) && !tokenValuesEqual(newValue, previousValue)) {
+    current[key] = removeColorModifier(current[key]);
+  }
+
+  // Existing tokens keep their own properties but record the plugin's data (variable id, gradient angle)
+  const extension = getTokenSyncExtension(token);
+  if (extension) {
+    current[key] = setTokenSyncExtension(current[key], extension);
+  }
+}
+
+/**
+ * Remove a token from a token file tree, pruning groups left empty
  */
-export function formatTokensAsJSON(tokens: StyleDictionaryTokens): string {
-  return JSON.stringify(tokens, null, 2);
+function removeTokenAtPath(tree: any, tokenPath: string[]): void {
+  const parents: any[] = [];
+  let current = tree;
+
+  for (const part of tokenPath.slice(0, -1)) {
+    if (!current[part] || typeof current[part] !== 'object') {
+      return;
+    }
+    parents.push(current);
+    current = current[part];
+  }
+
+  delete current[tokenPath[tokenPath.length - 1]];
+
+  // Prune empty groups from the innermost outwards
+  for (let i = parents.length - 1; i >= 0; i--) {
+    const group = parents[i][tokenPath[i]];
+    if (Object.keys(group).some((k) => !k.startsWith('$'))) {
+      break;
+    }
+    delete parents[i][tokenPath[i]];
+  }
+}
+
+/**
+ * Apply token updates and removals to a token file, returning the new file content.
+ * Existing files keep their dialect; new files are written in `format`.
+ * Code syntax matching the names generated by `codeSyntax` isn't written.
+ */
+export function updateTokenFile(
+  content: string | null,
+  updates: TokenFileUpdate[],
+  removals: string[][],
+  format: TokenFormat = 'style-dictionary',
+  codeSyntax?: CodeSyntaxConfig
+): string {
+  const tree = content ? JSON.parse(content) : {};
+  const fileFormat = countTokens(tree) > 0 ? detectTokenFormat(tree) : format;
+
+  for (const tokenPath of removals) {
+    removeTokenAtPath(tree, tokenPath);
+  }
+
+  for (const update of updates) {
+    writeTokenAtPath(tree, update.tokenPath, update.token, fileFormat, codeSyntax);
+  }
+
+  return JSON.stringify(tree, null, 2);
 }
 
 /**
@@ -253,9 +649,13 @@ export function generateChangeSummary(
     const result = new Map();
 
     for (const [key, value] of Object.entries(tokens)) {
+      if (key.startsWith('$')) {
+        continue;
+      }
+
       const path = prefix ? `${prefix}.${key}` : key;
 
-      if (value && typeof value === 'object' && 'value' in value) {
+      if (isDesignToken(value)) {
         // This is a token
         result.set(path, value);
       } else if (value && typeof value === 'object') {
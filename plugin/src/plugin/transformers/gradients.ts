@@ -0,0 +1,215 @@
+/**
+ * CSS gradient parsing and formatting
+ * Converts between CSS gradient angles and Figma gradient transforms
+ */
+
+export type GradientKind = 'linear' | 'radial' | 'conic';
+
+/**
+ * A gradient stop as written in a token; the color may be a reference
+ */
+export interface GradientStop {
+  color: string;
+  position?: number; // 0 - 1
+}
+
+export interface ParsedGradient {
+  kind: GradientKind;
+  angle: number; // CSS degrees, 180 = top to bottom (linear gradients only)
+  stops: GradientStop[];
+}
+
+// CSS "to <side>" directions as angles
+const SIDE_ANGLES: { [side: string]: number } = {
+  'to top': 0,
+  'to top right': 45,
+  'to right top': 45,
+  'to right': 90,
+  'to bottom right': 135,
+  'to right bottom': 135,
+  'to bottom': 180,
+  'to bottom left': 225,
+  'to left bottom': 225,
+  'to left': 270,
+  'to top left': 315,
+  'to left top': 315,
+};
+
+/**
+ * Split on a separator outside of parentheses and braces
+ */
+function splitTopLevel(text: string, isSeparator: (char: string) => boolean): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === '}') {
+      depth--;
+    }
+
+    if (depth === 0 && isSeparator(char)) {
+      if (current.trim()) {
+        parts.push(current.trim());
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+
+  return parts;
+}
+
+/**
+ * Parse a CSS angle ("90deg", "0.25turn", "to right"), or null if the text isn't one
+ */
+function parseAngle(text: string): number | null {
+  const value = text.trim().toLowerCase();
+
+  if (value in SIDE_ANGLES) {
+    return SIDE_ANGLES[value];
+  }
+
+  const match = value.match(/^(-?[\d.]+)(deg|turn|rad|grad)$/);
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'turn':
+      return amount * 360;
+    case 'rad':
+      return (amount * 180) / Math.PI;
+    case 'grad':
+      return amount * 0.9;
+    default:
+      return amount;
+  }
+}
+
+/**
+ * Parse a color stop ("#fff 50%", "{color.brand} 100%", "rgba(0, 0, 0, 0.5)")
+ */
+function parseStop(text: string): GradientStop {
+  const parts = splitTopLevel(text, (char) => /\s/.test(char));
+  const last = parts[parts.length - 1];
+
+  if (parts.length > 1 && last.endsWith('%')) {
+    return { color: parts.slice(0, -1).join(' '), position: parseFloat(last) / 100 };
+  }
+
+  return { color: text.trim() };
+}
+
+/**
+ * Parse a CSS gradient. Shape and position of radial and conic gradients are ignored.
+ */
+export function parseGradient(css: string): ParsedGradient {
+  const match = css.trim().match(/^(linear|radial|conic)-gradient\(([\s\S]*)\)$/i);
+  if (!match) {
+    throw new Error(`Invalid gradient: ${css}`);
+  }
+
+  const kind = match[1].toLowerCase() as GradientKind;
+  const args = splitTopLevel(match[2], (char) => char === ',');
+  let angle = 180;
+
+  // The first argument is a direction (linear) or shape/position (radial, conic) unless it is a stop
+  if (args.length > 0) {
+    const direction = kind === 'linear' ? parseAngle(args[0]) : null;
+    if (direction !== null) {
+      angle = direction;
+      args.shift();
+    } else if (kind !== 'linear' && /^(circle|ellipse|closest|farthest|at\s|from\s)/i.test(args[0])) {
+      args.shift();
+    }
+  }
+
+  if (args.length < 2) {
+    throw new Error(`Gradient needs at least two color stops: ${css}`);
+  }
+
+  return { kind, angle, stops: args.map(parseStop) };
+}
+
+/**
+ * Fill in missing stop positions: the first and last stops default to the ends,
+ * stops in between are spread evenly between their positioned neighbours
+ */
+export function distributeStopPositions(stops: GradientStop[]): number[] {
+  const positions = stops.map((s) => s.position);
+  if (positions[0] === undefined) {
+    positions[0] = 0;
+  }
+  if (positions[positions.length - 1] === undefined) {
+    positions[positions.length - 1] = 1;
+  }
+
+  let previous = 0;
+  for (let i = 1; i < positions.length; i++) {
+    if (positions[i] === undefined) {
+      continue;
+    }
+
+    // Spread the unpositioned stops between the previous positioned stop and this one
+    const gap = i - previous;
+    for (let j = previous + 1; j < i; j++) {
+      positions[j] = positions[previous]! + ((positions[i]! - positions[previous]!) * (j - previous)) / gap;
+    }
+    previous = i;
+  }
+
+  return positions as number[];
+}
+
+/**
+ * Format a gradient as CSS
+ */
+export function formatGradient(
+  kind: GradientKind,
+  angle: number,
+  stops: Array<{ color: string; position: number }>
+): string {
+  const formattedStops = stops.map((s) => `${s.color} ${Math.round(s.position * 10000) / 100}%`);
+
+  if (kind === 'linear') {
+    return `linear-gradient(${Math.round(angle * 100) / 100}deg, ${formattedStops.join(', ')})`;
+  }
+  if (kind === 'radial') {
+    return `radial-gradient(circle, ${formattedStops.join(', ')})`;
+  }
+  return `conic-gradient(${formattedStops.join(', ')})`;
+}
+
+/**
+ * Get the Figma gradient transform of a CSS angle.
+ * The transform maps layer space to gradient space, where the gradient runs from (0, 0.5) to (1, 0.5);
+ * the CSS direction is rotated about the centre of the layer.
+ */
+export function angleToGradientTransform(angle: number): Transform {
+  const radians = (angle * Math.PI) / 180;
+  const direction = { x: Math.sin(radians), y: -Math.cos(radians) };
+  const normal = { x: -direction.y, y: direction.x };
+
+  return [
+    [direction.x, direction.y, 0.5 - 0.5 * (direction.x + direction.y)],
+    [normal.x, normal.y, 0.5 - 0.5 * (normal.x + normal.y)],
+  ];
+}
+
+/**
+ * Get the CSS angle of a Figma gradient transform (0 - 360 degrees)
+ */
+export function gradientTransformToAngle(transform: Transform): number {
+  const [[x, y]] = transform;
+  const angle = (Math.atan2(x, -y) * 180) / Math.PI;
+  return Math.round(((angle + 360) % 360) * 100) / 100;
+}
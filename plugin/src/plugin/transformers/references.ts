@@ -0,0 +1,203 @@
+/**
+ * Token reference graph
+ * Finds references that don't resolve: tokens that don't exist and reference cycles
+ */
+
+import { StyleDictionaryTokens, UnresolvedReference } from '../../shared/types';
+import { isDesignToken } from '../../shared/token-format';
+import { deepMerge } from '../../shared/multi-brand-utils';
+import { STUDIO_EXTENSION } from './color-modifiers';
+
+/**
+ * Thrown when a token value can't be resolved because a reference is missing or circular
+ */
+export class UnresolvedReferenceError extends Error {
+  constructor(
+    public reference: string,
+    public reason: 'missing' | 'circular',
+    public cycle?: string[]
+  ) {
+    super(
+      reason === 'circular' && cycle
+        ? `Circular token reference: ${cycle.join(' → ')}`
+        : `Token reference not found: {${reference}}`
+    );
+    this.name = 'UnresolvedReferenceError';
+  }
+}
+
+/**
+ * Get every token reference in a value: whole references, references embedded in strings
+ * and references in composite values. The Style Dictionary ".value" suffix is stripped.
+ */
+export function getValueReferences(value: any): string[] {
+  if (typeof value === 'string') {
+    const references: string[] = [];
+    const pattern = /\{([^{}]+)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value))) {
+      references.push(match[1].trim().replace(/\.value$/, ''));
+    }
+    return references;
+  }
+
+  if (value && typeof value === 'object') {
+    const values: any[] = Array.isArray(value) ? value : Object.values(value);
+    return values.reduce<string[]>((all, v) => all.concat(getValueReferences(v)), []);
+  }
+
+  return [];
+}
+
+/**
+ * Get the references of a token: its value and its color modifier
+ */
+function getTokenReferences(token: any): string[] {
+  const modify = token.$extensions?.[STUDIO_EXTENSION]?.modify;
+  return [
+    ...getValueReferences('$value' in token ? token.$value : token.value),
+    ...(modify ? getValueReferences([modify.value, modify.color]) : []),
+  ];
+}
+
+/**
+ * Check if a reference points at something in the root tokens
+ */
+function referenceExists(reference: string, rootTokens: any): boolean {
+  let current = rootTokens;
+  for (const part of reference.split('.')) {
+    if (!current || typeof current !== 'object' || !(part in current)) {
+      return false;
+    }
+    current = current[part];
+  }
+  return true;
+}
+
+/**
+ * A reference from one token to another
+ */
+interface ReferenceEdge {
+  file: string;
+  tokenPath: string; // "color/semantic/error"
+  reference: string; // "color.base.red"
+}
+
+/**
+ * Collect the references of every token in a token tree
+ */
+function collectEdges(tokens: any, file: string, prefix: string[], edges: ReferenceEdge[]): void {
+  for (const [key, value] of Object.entries(tokens)) {
+    if (key.startsWith('$') || !value || typeof value !== 'object') {
+      continue;
+    }
+
+    const path = [...prefix, key];
+    if (isDesignToken(value)) {
+      for (const reference of getTokenReferences(value)) {
+        edges.push({ file, tokenPath: path.join('/'), reference });
+      }
+    } else {
+      collectEdges(value, file, path, edges);
+    }
+  }
+}
+
+/**
+ * Find the reference cycles of a graph (strongly connected components, Tarjan's algorithm)
+ * Returns the tokens of every cycle, keyed by reference path
+ */
+function findCycles(graph: Map<string, string[]>): Array<Set<string>> {
+  const cycles: Array<Set<string>> = [];
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowLink.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of graph.get(node) || []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(node) === index.get(node)) {
+      const component = new Set<string>();
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.add(member);
+      } while (member !== node);
+
+      // A single token is only a cycle when it references itself
+      if (component.size > 1 || (graph.get(node) || []).includes(node)) {
+        cycles.push(component);
+      }
+    }
+  };
+
+  for (const node of graph.keys()) {
+    if (!index.has(node)) {
+      visit(node);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Find the references of token files that don't resolve: references to tokens that don't exist
+ * in any file, and references that are part of a cycle ("a" → "b" → "a")
+ */
+export function findUnresolvedReferences(
+  files: Array<{ path: string; tokens: StyleDictionaryTokens }>
+): UnresolvedReference[] {
+  // References resolve against every file, like the import does
+  const rootTokens: any = {};
+  for (const file of files) {
+    deepMerge(rootTokens, file.tokens);
+  }
+
+  const edges: ReferenceEdge[] = [];
+  for (const file of files) {
+    collectEdges(file.tokens, file.path, [], edges);
+  }
+
+  const unresolved: UnresolvedReference[] = [];
+  const graph = new Map<string, string[]>();
+
+  for (const edge of edges) {
+    if (!referenceExists(edge.reference, rootTokens)) {
+      unresolved.push({ ...edge, reason: 'missing' });
+      continue;
+    }
+
+    const from = edge.tokenPath.split('/').join('.');
+    graph.set(from, [...(graph.get(from) || []), edge.reference]);
+  }
+
+  for (const cycle of findCycles(graph)) {
+    const members = Array.from(cycle);
+    for (const edge of edges) {
+      const from = edge.tokenPath.split('/').join('.');
+      if (cycle.has(from) && cycle.has(edge.reference)) {
+        unresolved.push({ ...edge, reason: 'circular', cycle: members });
+      }
+    }
+  }
+
+  if (unresolved.length > 0) {
+    console.warn(`⚠️ ${unresolved.length} unresolved token reference(s)`);
+  }
+
+  return unresolved;
+}
@@ -0,0 +1,119 @@
+/**
+ * Variable scopes of tokens
+ * Limits where Figma offers a variable (spacing in gap fields, text colors in text fills, ...)
+ * based on the token type and path, or an explicit list in `$extensions`
+ */
+
+import { SYNC_EXTENSION } from '../../shared/token-format';
+
+// Scopes of token types (lowercase; Style Dictionary, Tokens Studio and DTCG names)
+const TYPE_SCOPES: { [type: string]: VariableScope[] } = {
+  spacing: ['GAP'],
+  sizing: ['WIDTH_HEIGHT'],
+  size: ['WIDTH_HEIGHT'],
+  borderradius: ['CORNER_RADIUS'],
+  borderwidth: ['STROKE_FLOAT'],
+  fontsize: ['FONT_SIZE'],
+  fontsizes: ['FONT_SIZE'],
+  fontweight: ['FONT_WEIGHT'],
+  fontweights: ['FONT_WEIGHT'],
+  fontfamily: ['FONT_FAMILY'],
+  fontfamilies: ['FONT_FAMILY'],
+  lineheight: ['LINE_HEIGHT'],
+  lineheights: ['LINE_HEIGHT'],
+  letterspacing: ['LETTER_SPACING'],
+  paragraphspacing: ['PARAGRAPH_SPACING'],
+  opacity: ['OPACITY'],
+};
+
+// Scopes of color tokens by path segment ("color/background/surface")
+const COLOR_PATH_SCOPES: Array<{ segments: string[]; scopes: VariableScope[] }> = [
+  { segments: ['background', 'bg', 'surface', 'fill'], scopes: ['FRAME_FILL', 'SHAPE_FILL'] },
+  { segments: ['text', 'foreground', 'fg'], scopes: ['TEXT_FILL'] },
+  { segments: ['border', 'stroke', 'outline'], scopes: ['STROKE_COLOR'] },
+  { segments: ['shadow'], scopes: ['EFFECT_COLOR'] },
+];
+
+// Scopes Figma accepts for each variable type; boolean variables have no scopes
+const VALID_SCOPES: { [type in VariableResolvedDataType]: VariableScope[] } = {
+  COLOR: ['ALL_SCOPES', 'ALL_FILLS', 'FRAME_FILL', 'SHAPE_FILL', 'TEXT_FILL', 'STROKE_COLOR', 'EFFECT_COLOR'],
+  FLOAT: [
+    'ALL_SCOPES',
+    'TEXT_CONTENT',
+    'CORNER_RADIUS',
+    'WIDTH_HEIGHT',
+    'GAP',
+    'STROKE_FLOAT',
+    'OPACITY',
+    'EFFECT_FLOAT',
+    'FONT_WEIGHT',
+    'FONT_SIZE',
+    'LINE_HEIGHT',
+    'LETTER_SPACING',
+    'PARAGRAPH_SPACING',
+    'PARAGRAPH_INDENT',
+  ],
+  STRING: ['ALL_SCOPES', 'TEXT_CONTENT', 'FONT_FAMILY', 'FONT_STYLE'],
+  BOOLEAN: [],
+};
+
+/**
+ * Get the scopes a token gets when it has no explicit scopes
+ */
+export function getDefaultScopes(tokenPath: string[], type: string | undefined, value: any): VariableScope[] {
+  const normalizedType = type?.toLowerCase();
+
+  if (normalizedType === 'color') {
+    const segments = tokenPath.map((s) => s.toLowerCase());
+    const match = COLOR_PATH_SCOPES.find((m) => m.segments.some((s) => segments.includes(s)));
+    return match ? match.scopes : ['ALL_SCOPES'];
+  }
+
+  // Named weights ("Bold") are string variables, which Figma scopes as font styles
+  if ((normalizedType === 'fontweight' || normalizedType === 'fontweights') && typeof value === 'string' && isNaN(Number(value))) {
+    return ['FONT_STYLE'];
+  }
+
+  return (normalizedType && TYPE_SCOPES[normalizedType]) || ['ALL_SCOPES'];
+}
+
+/**
+ * Get the explicit scopes of a token (`$extensions["figma-token-sync"].scopes`), if any
+ */
+export function getExplicitScopes(extensions: { [key: string]: any } | undefined): VariableScope[] | null {
+  const scopes = extensions?.[SYNC_EXTENSION]?.scopes;
+  return Array.isArray(scopes) ? scopes : null;
+}
+
+/**
+ * Check if two scope lists contain the same scopes
+ */
+export function scopesEqual(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((s) => b.includes(s));
+}
+
+/**
+ * Set the scopes of a variable, skipping scopes its type doesn't support
+ * Returns whether the scopes changed
+ */
+export function applyVariableScopes(variable: Variable, scopes: VariableScope[], warnings: string[]): boolean {
+  const validScopes = VALID_SCOPES[variable.resolvedType];
+  if (validScopes.length === 0) {
+    return false;
+  }
+
+  const invalid = scopes.filter((s) => !validScopes.includes(s));
+  if (invalid.length > 0) {
+    warnings.push(`Scopes ${invalid.join(', ')} don't apply to ${variable.resolvedType} variable ${variable.name}, ignoring them`);
+  }
+
+  const applied = scopes.filter((s) => validScopes.includes(s));
+  const next: VariableScope[] = applied.length > 0 ? applied : ['ALL_SCOPES'];
+  if (scopesEqual(variable.scopes, next)) {
+    return false;
+  }
+
+  variable.scopes = next;
+  console.log(`🎯 Scoped ${variable.name} to ${next.join(', ')}`);
+  return true;
+}
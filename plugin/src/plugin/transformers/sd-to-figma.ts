@@ -6,11 +6,46 @@ import {
   getOrCreateCollection,
   setVariable,
   setVariableForMode,
+  setVariableAliasForMode,
+  findVariable,
+  buildVariableLookup,
+  lookupVariable,
+  VariableLookup,
+  getModeId,
   parseColor,
   parseDimension,
+  getComparableValue,
+  getDimensionUnit,
+  setVariableUnit,
+  setVariableColorSource,
+  setVariableValueSource,
+  DEFAULT_BASE_FONT_SIZE,
 } from '../figma-api/variables';
-import { StyleDictionaryTokens, StyleDictionaryToken, ProcessedTokenFile, MultiBrandStructure } from '../../shared/types';
-import { deepMerge } from '../../shared/multi-brand-utils';
+import {
+  StyleDictionaryTokens,
+  StyleDictionaryToken,
+  ProcessedTokenFile,
+  MultiBrandStructure,
+  FileStructureMapping,
+  FlatTokenMap,
+  PullPlan,
+  CodeSyntaxConfig,
+} from '../../shared/types';
+import { deepMerge, deepClone } from '../../shared/multi-brand-utils';
+import { isColorFunction } from '../../shared/colors';
+import { evaluateExpression } from './expressions';
+import { applyColorModifier, getColorModifier } from './color-modifiers';
+import { UnresolvedReferenceError } from './references';
+import {
+  getStyleTokenKind,
+  getTokenVariableId,
+  isDesignToken,
+  isDTCGToken,
+  normalizeTokens,
+} from '../../shared/token-format';
+import { applyVariableScopes, getDefaultScopes, getExplicitScopes } from './scopes';
+import { applyVariableCodeSyntax, getTokenCodeSyntax } from './code-syntax';
+import { getTokenKey, parseTokenKey, tokenValuesEqual } from '../../shared/three-way-merge';
 
 export interface TransformResult {
   success: boolean;
@@ -21,36 +56,57 @@ export interface TransformResult {
   warnings: string[];
 }
 
-interface FlatToken {
+export interface FlatToken {
   path: string;
-  value: string | number | boolean;
+  value: StyleDictionaryToken['value'];
   type?: string;
   comment?: string;
+  variableId?: string; // Figma variable the token was pushed from
+  extensions?: { [key: string]: any }; // `$extensions` of the token
 }
 
 /**
  * Flatten nested token structure into array of tokens with paths
+ * Accepts both Style Dictionary and DTCG tokens (DTCG group `$type` is inherited)
  */
-function flattenTokens(
+export function flattenTokens(
   tokens: StyleDictionaryTokens,
-  prefix: string = ''
+  prefix: string = '',
+  inheritedType?: string
 ): FlatToken[] {
   const result: FlatToken[] = [];
+  const groupType = typeof tokens.$type === 'string' ? tokens.$type : inheritedType;
 
   for (const [key, value] of Object.entries(tokens)) {
+    // Skip DTCG group metadata and non-object entries
+    if (key.startsWith('$') || !value || typeof value !== 'object') {
+      continue;
+    }
+
     const path = prefix ? `${prefix}/${key}` : key;
 
-    if (isToken(value)) {
+    if (isDTCGToken(value)) {
+      result.push({
+        path,
+        value: value.$value,
+        type: value.$type || groupType,
+        comment: value.$description,
+        variableId: getTokenVariableId(value),
+        extensions: value.$extensions,
+      });
+    } else if (isToken(value)) {
       // This is a token
       result.push({
         path,
         value: value.value,
         type: value.type,
         comment: value.comment,
+        variableId: getTokenVariableId(value),
+        extensions: value.$extensions,
       });
     } else {
       // This is a nested group, recurse
-      result.push(...flattenTokens(value as StyleDictionaryTokens, path));
+      result.push(...flattenTokens(value as StyleDictionaryTokens, path, groupType));
     }
   }
 
@@ -58,10 +114,17 @@ function flattenTokens(
 }
 
 /**
- * Check if an object is a token (has a 'value' property)
+ * Flatten the tokens that are imported as variables, leaving out composite style tokens
+ */
+function flattenVariableTokens(tokens: StyleDictionaryTokens): FlatToken[] {
+  return flattenTokens(tokens).filter(token => !getStyleTokenKind(token));
+}
+
+/**
+ * Check if an object is a token (has a 'value' or '$value' property)
  */
 function isToken(obj: any): obj is StyleDictionaryToken {
-  return obj && typeof obj === 'object' && 'value' in obj;
+  return isDesignToken(obj);
 }
 
 /**
@@ -125,11 +188,7 @@ function getFigmaVariableType(
 
   if (typeof value === 'string') {
     // Check if it looks like a color
-    if (
-      value.startsWith('#') ||
-      value.startsWith('rgb') ||
-      value.startsWith('hsl')
-    ) {
+    if (value.startsWith('#') || isColorFunction(value)) {
       return 'COLOR';
     }
 
@@ -148,10 +207,12 @@ function getFigmaVariableType(
 
 /**
  * Convert Style Dictionary token value to Figma variable value
+ * rem and em dimensions are converted to pixels relative to `baseFontSize`
  */
-function convertTokenValue(
+export function convertTokenValue(
   value: string | number | boolean | object,
-  type: VariableResolvedDataType
+  type: VariableResolvedDataType,
+  baseFontSize: number = DEFAULT_BASE_FONT_SIZE
 ): VariableValue | null {
   if (type === 'COLOR') {
     let colorValue = value;
@@ -176,7 +237,7 @@ function convertTokenValue(
       return value;
     }
     if (typeof value === 'string') {
-      return parseDimension(value);
+      return parseDimension(value, baseFontSize);
     }
     throw new Error(`Float value must be a number or string, got ${typeof value}`);
   }
@@ -223,8 +284,605 @@ function getVariableName(path: string): string {
   return segments[0];
 }
 
+/**
+ * Get the Figma collection and variable name a token path is imported as
+ */
+function getVariableLocation(
+  path: string,
+  collectionOverride?: string
+): { collectionName: string; variableName: string } {
+  return {
+    collectionName: collectionOverride || getCollectionName(path),
+    variableName: collectionOverride ? path : getVariableName(path),
+  };
+}
+
+/**
+ * Record the source file and JSON path of every token so push can write back to the same place.
+ * Base and global files are recorded as the token's file; with brand modes,
+ * brand files are recorded as overrides for that brand.
+ */
+export function buildFileStructureMapping(
+  processedFiles: ProcessedTokenFile[],
+  options: {
+    collectionName?: string;
+    brandModes?: boolean; // Brand files are imported as modes rather than merged
+  } = {}
+): FileStructureMapping {
+  const mapping: FileStructureMapping = {};
+
+  const sharedFiles = options.brandModes
+    ? [
+        ...processedFiles.filter(f => f.category === 'base'),
+        ...processedFiles.filter(f => f.category === 'global'),
+      ]
+    : processedFiles;
+  const brandFiles = options.brandModes
+    ? processedFiles.filter(f => f.category === 'brand')
+    : [];
+
+  for (const file of sharedFiles) {
+    for (const token of flattenVariableTokens(file.tokens)) {
+      const { collectionName, variableName } = getVariableLocation(token.path, options.collectionName);
+      mapping[`${collectionName}/${variableName}`] = {
+        ...mapping[`${collectionName}/${variableName}`],
+        file: file.path,
+        tokenPath: token.path.split('/'),
+      };
+    }
+  }
+
+  for (const file of brandFiles) {
+    for (const token of flattenVariableTokens(file.tokens)) {
+      const { collectionName, variableName } = getVariableLocation(token.path, options.collectionName);
+      const key = `${collectionName}/${variableName}`;
+
+      if (!mapping[key]) {
+        // Brand-only token - its brand file is also its source file
+        mapping[key] = { file: file.path, tokenPath: token.path.split('/') };
+      }
+
+      mapping[key].brandFiles = {
+        ...mapping[key].brandFiles,
+        [file.brand!]: file.path,
+      };
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Get the value a token would have in Figma in comparable form
+ * References are represented as "{Collection/variable/path}" of the referenced variable;
+ * expressions and color modifiers are evaluated against the root tokens
+ */
+function getComparableTokenValue(
+  token: FlatToken,
+  rootTokens: StyleDictionaryTokens,
+  collectionOverride?: string,
+  baseFontSize?: number
+): any {
+  const reference = getTokenAliasReference(token);
+  if (reference) {
+    const { collectionName, variableName } = getVariableLocation(
+      reference.split('.').join('/'),
+      collectionOverride
+    );
+    return `{${collectionName}/${variableName}}`;
+  }
+
+  try {
+    const resolved = resolveTokenValue(token, rootTokens);
+    const type = getFigmaVariableType(resolved.type, resolved.value);
+    const value = convertTokenValue(resolved.value, type, baseFontSize);
+    return value === null ? token.value : getComparableValue(value, type);
+  } catch {
+    // Values Figma can't represent are compared as written
+    return token.value;
+  }
+}
+
+/**
+ * How repository tokens map to variables and modes on pull
+ */
+export interface RepositoryTokenOptions {
+  collectionName?: string;
+  targetMode?: string;
+  brandModes?: boolean; // Brand files are imported as modes rather than merged
+  brands?: string[];
+  baseFontSize?: number; // Font size rem and em dimensions are relative to
+}
+
+/**
+ * Collect the tokens of files keyed by the variable they are imported as (later files win)
+ */
+function collectRepositoryTokens(
+  files: ProcessedTokenFile[],
+  collectionOverride?: string
+): Map<string, FlatToken> {
+  const collected = new Map<string, FlatToken>();
+
+  for (const file of files) {
+    for (const token of flattenVariableTokens(file.tokens)) {
+      const { collectionName, variableName } = getVariableLocation(token.path, collectionOverride);
+      collected.set(`${collectionName}/${variableName}`, token);
+    }
+  }
+
+  return collected;
+}
+
+/**
+ * Get the files that hold default mode values
+ */
+export function getDefaultTokenFiles(
+  processedFiles: ProcessedTokenFile[],
+  options: RepositoryTokenOptions
+): ProcessedTokenFile[] {
+  return options.brandModes
+    ? [
+        ...processedFiles.filter(f => f.category === 'base'),
+        ...processedFiles.filter(f => f.category === 'global'),
+      ]
+    : processedFiles;
+}
+
+/**
+ * Flatten repository tokens to comparable values for three-way merging,
+ * keyed like the variables (and modes) they are imported as.
+ */
+export function flattenRepositoryTokens(
+  processedFiles: ProcessedTokenFile[],
+  options: RepositoryTokenOptions = {}
+): FlatTokenMap {
+  const tokens: FlatTokenMap = {};
+
+  // Values are resolved against every file, like the import does
+  const rootTokens: StyleDictionaryTokens = {};
+  for (const file of processedFiles) {
+    deepMerge(rootTokens, file.tokens);
+  }
+
+  const defaults = collectRepositoryTokens(getDefaultTokenFiles(processedFiles, options), options.collectionName);
+  for (const [variablePath, token] of defaults) {
+    tokens[getTokenKey(variablePath, options.targetMode)] = getComparableTokenValue(
+      token,
+      rootTokens,
+      options.collectionName,
+      options.baseFontSize
+    );
+  }
+
+  if (options.brandModes) {
+    // Every brand mode holds the default value unless the brand overrides it
+    for (const brand of options.brands || []) {
+      const brandFiles = processedFiles.filter(f => f.category === 'brand' && f.brand === brand);
+      const overrides = collectRepositoryTokens(brandFiles, options.collectionName);
+
+      // This brand's overrides win when resolving its values
+      const brandContext = deepClone(rootTokens);
+      for (const file of brandFiles) {
+        deepMerge(brandContext, file.tokens);
+      }
+
+      for (const [variablePath, token] of defaults) {
+        tokens[getTokenKey(variablePath, brand)] = getComparableTokenValue(
+          overrides.get(variablePath) || token,
+          brandContext,
+          options.collectionName,
+          options.baseFontSize
+        );
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * A variable whose token was renamed in the repository
+ */
+export interface VariableRename {
+  variableId: string;
+  from: string; // "Collection/variable/path" in Figma
+  to: string; // "Collection/variable/path" in the repository
+}
+
+/**
+ * Find variables whose token was renamed in the repository since it was pushed.
+ * Tokens are matched to variables by the variable id push records in `$extensions`,
+ * so the variable can be renamed in place and layers bound to it keep their binding.
+ */
+export async function findVariableRenames(
+  processedFiles: ProcessedTokenFile[],
+  options: RepositoryTokenOptions = {}
+): Promise<VariableRename[]> {
+  const renames: VariableRename[] = [];
+  const tokens = collectRepositoryTokens(getDefaultTokenFiles(processedFiles, options), options.collectionName);
+  const renamedIds = new Set<string>();
+
+  for (const [variablePath, token] of tokens) {
+    if (!token.variableId || renamedIds.has(token.variableId)) {
+      continue;
+    }
+
+    const variable = await figma.variables.getVariableByIdAsync(token.variableId);
+    if (!variable) {
+      continue;
+    }
+
+    const collection = await figma.variables.getVariableCollectionByIdAsync(variable.variableCollectionId);
+    if (!collection) {
+      continue;
+    }
+
+    const from = `${collection.name}/${variable.name}`;
+    if (from === variablePath) {
+      continue;
+    }
+
+    // A token that still exists under the old name was copied, not renamed
+    if (tokens.has(from)) {
+      continue;
+    }
+
+    const [collectionName, ...nameParts] = variablePath.split('/');
+    if (collectionName !== collection.name) {
+      console.warn(`⚠️ ${from} was moved to ${variablePath} in the repository - variables can't change collection, it will be recreated`);
+      continue;
+    }
+
+    if (await findVariable(nameParts.join('/'), collectionName)) {
+      console.warn(`⚠️ Can't rename ${from} to ${variablePath}, a variable with that name already exists`);
+      continue;
+    }
+
+    renamedIds.add(token.variableId);
+    renames.push({ variableId: token.variableId, from, to: variablePath });
+  }
+
+  return renames;
+}
+
+/**
+ * Rename variables in place, returning the number renamed
+ */
+export async function applyVariableRenames(renames: VariableRename[]): Promise<number> {
+  let renamed = 0;
+
+  for (const rename of renames) {
+    const variable = await figma.variables.getVariableByIdAsync(rename.variableId);
+    if (!variable) {
+      continue;
+    }
+
+    variable.name = rename.to.split('/').slice(1).join('/');
+    console.log(`✏️ Renamed ${rename.from} to ${rename.to}`);
+    renamed++;
+  }
+
+  return renamed;
+}
+
+/**
+ * Give renamed variables their previous name back, when the pull that renamed them fails
+ */
+export async function revertVariableRenames(renames: VariableRename[]): Promise<number> {
+  return applyVariableRenames(renames.map(r => ({ variableId: r.variableId, from: r.to, to: r.from })));
+}
+
+/**
+ * Get the Figma type every repository token would be imported as
+ */
+export function getRepositoryTokenTypes(
+  processedFiles: ProcessedTokenFile[],
+  options: RepositoryTokenOptions = {}
+): { [variablePath: string]: VariableResolvedDataType } {
+  const types: { [variablePath: string]: VariableResolvedDataType } = {};
+
+  // References are resolved against every file, like the import does
+  const rootTokens: StyleDictionaryTokens = {};
+  for (const file of processedFiles) {
+    deepMerge(rootTokens, file.tokens);
+  }
+
+  const defaults = collectRepositoryTokens(getDefaultTokenFiles(processedFiles, options), options.collectionName);
+  for (const [variablePath, token] of defaults) {
+    try {
+      const resolved = resolveTokenValue(token, rootTokens);
+      types[variablePath] = getFigmaVariableType(resolved.type, resolved.value);
+    } catch {
+      // Invalid expressions are reported by the import
+      types[variablePath] = getFigmaVariableType(token.type, token.value);
+    }
+  }
+
+  return types;
+}
+
+/**
+ * Work out what importing the repository tokens would change, without touching the document.
+ * Keys in keepFigma hold Figma changes the merge keeps, so they are not planned as updates.
+ */
+export function planTokenImport(
+  repository: {
+    tokens: FlatTokenMap;
+    types: { [variablePath: string]: VariableResolvedDataType };
+  },
+  figma: {
+    tokens: FlatTokenMap;
+    types: { [variablePath: string]: VariableResolvedDataType };
+    collections: Array<{ name: string; modes: string[] }>; // Mode names mapped like token keys
+  },
+  keepFigma: Set<string> = new Set()
+): Pick<PullPlan, 'collectionsToCreate' | 'modesToCreate' | 'changes'> {
+  const plan: Pick<PullPlan, 'collectionsToCreate' | 'modesToCreate' | 'changes'> = {
+    collectionsToCreate: [],
+    modesToCreate: [],
+    changes: [],
+  };
+
+  const existingModes = new Map(figma.collections.map(c => [c.name, c.modes]));
+
+  for (const [key, newValue] of Object.entries(repository.tokens)) {
+    const { variablePath, mode } = parseTokenKey(key);
+    const collectionName = variablePath.split('/')[0];
+    const newType = repository.types[variablePath];
+    const oldType = figma.types[variablePath];
+
+    if (!existingModes.has(collectionName) && !plan.collectionsToCreate.includes(collectionName)) {
+      plan.collectionsToCreate.push(collectionName);
+    }
+
+    const modes = existingModes.get(collectionName) || [];
+    if (
+      mode &&
+      !modes.includes(mode) &&
+      !plan.modesToCreate.some(m => m.collection === collectionName && m.mode === mode)
+    ) {
+      plan.modesToCreate.push({ collection: collectionName, mode });
+    }
+
+    if (!oldType) {
+      plan.changes.push({ action: 'create', key, newValue, newType });
+    } else if (oldType !== newType) {
+      plan.changes.push({ action: 'retype', key, oldValue: figma.tokens[key], newValue, oldType, newType });
+    } else if (!tokenValuesEqual(figma.tokens[key], newValue) && !keepFigma.has(key)) {
+      plan.changes.push({ action: 'update', key, oldValue: figma.tokens[key], newValue, oldType, newType });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Get the referenced token path when a value is a single alias like "{color.base.red}"
+ * The Style Dictionary ".value" suffix is stripped
+ */
+export function getAliasReference(value: any): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.trim().match(/^\{([^{}]+)\}$/);
+  if (!match) {
+    return null;
+  }
+
+  return match[1].replace(/\.value$/, '');
+}
+
+/**
+ * Get the token a token aliases; tokens with a color modifier are imported as their modified value
+ */
+function getTokenAliasReference(token: FlatToken): string | null {
+  return getColorModifier(token.extensions) ? null : getAliasReference(token.value);
+}
+
+/**
+ * Resolve a token value to its literal value, following references through the root tokens.
+ * Referenced token objects are unwrapped and their type is carried along,
+ * expressions are evaluated and the token's color modifier is applied.
+ * Throws an UnresolvedReferenceError when a reference is missing or circular.
+ */
+export function resolveTokenValue(
+  token: FlatToken,
+  rootTokens: StyleDictionaryTokens
+): { value: any; type?: string } {
+  let value = resolveTokenReferences(token.value, rootTokens);
+  let type = token.type;
+
+  while (isToken(value)) {
+    const referenced: any = value;
+    type = type || referenced.$type || referenced.type;
+    value = '$value' in referenced ? referenced.$value : referenced.value;
+  }
+
+  // A reference left in place didn't resolve
+  const missing = getAliasReference(value);
+  if (missing) {
+    throw new UnresolvedReferenceError(missing, 'missing');
+  }
+
+  const modifier = getColorModifier(token.extensions);
+  if (modifier) {
+    value = applyColorModifier(value, modifier, (v) => resolveLiteralValue(v, rootTokens));
+  }
+
+  return { value, type };
+}
+
+/**
+ * Resolve a value to a literal, unwrapping referenced token objects
+ */
+function resolveLiteralValue(value: any, rootTokens: any, resolving: string[] = []): any {
+  let resolved = resolveTokenReferences(value, rootTokens, resolving);
+  while (isToken(resolved)) {
+    const referenced: any = resolved;
+    resolved = '$value' in referenced ? referenced.$value : referenced.value;
+  }
+  return resolved;
+}
+
+/**
+ * An alias that is applied once every variable of the pull exists
+ */
+interface PendingAlias {
+  variable: Variable;
+  modeId: string;
+  reference: string;
+  tokenPath: string;
+}
+
+/**
+ * Write a single token to a collection in the given mode.
+ * Alias tokens get their resolved literal value first and are queued in `pendingAliases`
+ * so they can be pointed at their target once all variables have been created.
+ * The variable is scoped by the token's explicit scopes, or by its type and path.
+ * Dimensions are stored in pixels, colors in sRGB and expressions as their result;
+ * how they were written is kept for push.
+ * Tokens whose references don't resolve are skipped with a warning.
+ */
+async function setTokenInCollection(
+  collection: VariableCollection,
+  variableName: string,
+  token: FlatToken,
+  rootTokens: StyleDictionaryTokens,
+  pendingAliases: PendingAlias[],
+  warnings: string[],
+  baseFontSize: number | undefined,
+  modeName?: string
+): Promise<Variable | null> {
+  let resolved: { value: any; type?: string };
+  try {
+    resolved = resolveTokenValue(token, rootTokens);
+  } catch (error) {
+    // Tokens with unresolved references are skipped rather than imported as their literal "{...}"
+    if (error instanceof UnresolvedReferenceError) {
+      warnings.push(`${token.path}: ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+
+  const figmaType = getFigmaVariableType(resolved.type, resolved.value);
+  const figmaValue = convertTokenValue(resolved.value, figmaType, baseFontSize);
+
+  if (figmaValue === null) {
+    return null;
+  }
+
+  const variable = modeName
+    ? await setVariableForMode(collection, variableName, figmaType, figmaValue, modeName, token.comment)
+    : await setVariable(collection, variableName, figmaType, figmaValue, token.comment);
+
+  const scopes = getExplicitScopes(token.extensions)
+    || getDefaultScopes(token.path.split('/'), resolved.type, resolved.value);
+  applyVariableScopes(variable, scopes, warnings);
+
+  const modeId = getModeId(collection, modeName);
+  if (figmaType === 'FLOAT') {
+    setVariableUnit(variable, modeId, getDimensionUnit(resolved.value));
+  }
+  if (figmaType === 'COLOR') {
+    setVariableColorSource(variable, modeId, typeof resolved.value === 'string' ? resolved.value : undefined);
+  }
+
+  const reference = getTokenAliasReference(token);
+
+  // Expressions and modified colors are pushed as written while the variable keeps their result
+  const computed = typeof token.value === 'string' && !reference && resolved.value !== token.value;
+  setVariableValueSource(
+    variable,
+    modeId,
+    computed
+      ? { value: token.value as string, resolved: getComparableValue(variable.valuesByMode[modeId], figmaType) }
+      : undefined
+  );
+
+  if (reference) {
+    pendingAliases.push({
+      variable,
+      modeId,
+      reference,
+      tokenPath: token.path,
+    });
+  }
+
+  return variable;
+}
+
+/**
+ * Find the Figma variable a token reference points to.
+ * Looks in the collection the referenced token was imported into first, then in every local collection.
+ */
+export function findAliasTarget(
+  reference: string,
+  variables: VariableLookup,
+  collectionOverride?: string
+): Variable | null {
+  const tokenPath = reference.split('.').join('/');
+  const { collectionName, variableName } = getVariableLocation(tokenPath, collectionOverride);
+
+  return (
+    lookupVariable(variables, variableName, collectionName) ||
+    lookupVariable(variables, tokenPath) ||
+    lookupVariable(variables, variableName)
+  );
+}
+
+/**
+ * Replace the literal values of alias tokens with VARIABLE_ALIAS values.
+ * Falls back to the literal value (already set) when the target can't be resolved.
+ */
+async function applyPendingAliases(
+  pendingAliases: PendingAlias[],
+  collectionOverride: string | undefined,
+  result: TransformResult
+): Promise<void> {
+  if (pendingAliases.length === 0) {
+    return;
+  }
+
+  // Indexed once, after every variable of the import exists
+  const variables = await buildVariableLookup();
+
+  for (const pending of pendingAliases) {
+    try {
+      const target = findAliasTarget(pending.reference, variables, collectionOverride);
+
+      if (!target) {
+        result.warnings.push(
+          `Alias target {${pending.reference}} for ${pending.tokenPath} not found in Figma, using literal value`
+        );
+        continue;
+      }
+
+      if (target.id === pending.variable.id) {
+        result.warnings.push(`Token ${pending.tokenPath} references itself, using literal value`);
+        continue;
+      }
+
+      if (target.resolvedType !== pending.variable.resolvedType) {
+        result.warnings.push(
+          `Alias target {${pending.reference}} for ${pending.tokenPath} is ${target.resolvedType}, expected ${pending.variable.resolvedType}; using literal value`
+        );
+        continue;
+      }
+
+      setVariableAliasForMode(pending.variable, pending.modeId, target);
+    } catch (error) {
+      result.warnings.push(
+        `Failed to alias ${pending.tokenPath} to {${pending.reference}}, using literal value: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+}
+
 /**
  * Transform Style Dictionary tokens to Figma variables
+ * References are imported as variable aliases where the target variable can be found
  */
 export async function transformTokensToFigma(
   tokens: StyleDictionaryTokens,
@@ -232,8 +890,10 @@ export async function transformTokensToFigma(
     collectionName?: string; // Override collection name
     clearExisting?: boolean; // Clear existing variables
     targetMode?: string; // Target mode to place variables in
+    codeSyntax?: CodeSyntaxConfig; // Generate Dev Mode code syntax from token paths
+    baseFontSize?: number; // Font size rem and em dimensions are relative to
   } = {}
-): TransformResult {
+): Promise<TransformResult> {
   const result: TransformResult = {
     success: true,
     collectionsCreated: 0,
@@ -245,7 +905,7 @@ export async function transformTokensToFigma(
 
   try {
     // Flatten tokens
-    const flatTokens = flattenTokens(tokens);
+    const flatTokens = flattenVariableTokens(tokens);
 
     if (flatTokens.length === 0) {
       result.warnings.push('No tokens found to import');
@@ -267,8 +927,11 @@ export async function transformTokensToFigma(
       tokensByCollection.get(collectionName)!.push(token);
     }
 
+    // Aliases are applied after every collection has been processed
+    const pendingAliases: PendingAlias[] = [];
+
     // Create/update variables in each collection
-    for (const [collectionName, tokens] of tokensByCollection) {
+    for (const [collectionName, collectionTokens] of tokensByCollection) {
       try {
         // Get or create collection
         const existingCollections = await figma.variables.getLocalVariableCollectionsAsync();
@@ -293,42 +956,36 @@ export async function transformTokensToFigma(
         );
 
         // Process each token
-        for (const token of tokens) {
+        for (const token of collectionTokens) {
           try {
             const variableName = options.collectionName
               ? token.path // Use full path if custom collection name
               : getVariableName(token.path);
 
-            const figmaType = getFigmaVariableType(token.type, token.value);
-            const figmaValue = convertTokenValue(token.value, figmaType);
+            const wasExisting = existingVariableNames.has(variableName);
 
-            if (figmaValue === null) {
+            // Use mode-specific function if targetMode is specified
+            const variable = await setTokenInCollection(
+              collection,
+              variableName,
+              token,
+              tokens,
+              pendingAliases,
+              result.warnings,
+              options.baseFontSize,
+              options.targetMode
+            );
+
+            if (!variable) {
               result.warnings.push(
                 `Skipped token ${token.path}: could not convert value`
               );
               continue;
             }
 
-            const wasExisting = existingVariableNames.has(variableName);
-
-            // Use mode-specific function if targetMode is specified
-            if (options.targetMode) {
-              await setVariableForMode(
-                collection,
-                variableName,
-                figmaType,
-                figmaValue,
-                options.targetMode,
-                token.comment
-              );
-            } else {
-              await setVariable(
-                collection,
-                variableName,
-                figmaType,
-                figmaValue,
-                token.comment
-              );
+            const codeSyntax = getTokenCodeSyntax(token, options.codeSyntax);
+            if (codeSyntax) {
+              applyVariableCodeSyntax(variable, codeSyntax);
             }
 
             if (wasExisting) {
@@ -349,6 +1006,9 @@ export async function transformTokensToFigma(
       }
     }
 
+    // Point alias tokens at the variables they reference
+    await applyPendingAliases(pendingAliases, options.collectionName, result);
+
     result.success = result.errors.length === 0;
   } catch (error) {
     result.success = false;
@@ -360,21 +1020,25 @@ export async function transformTokensToFigma(
   return result;
 }
 
-/**
- * Parse and validate Style Dictionary JSON
- */
 /**
  * Resolve token references like {token.color.base.red.500.value}
+ * Expressions with embedded references ("{spacing.base} * 2") are evaluated.
+ * `resolving` holds the references being followed; meeting one again is a circular reference.
  */
-export function resolveTokenReferences(tokens: any, originalTokens?: any): any {
+export function resolveTokenReferences(tokens: any, originalTokens?: any, resolving: string[] = []): any {
   const rootTokens = originalTokens || tokens;
 
   if (typeof tokens === 'string') {
     // Check for token reference pattern
-    const referenceMatch = tokens.match(/^\{(.+)\}$/);
+    const referenceMatch = tokens.match(/^\{([^{}]+)\}$/);
     if (referenceMatch) {
       const path = referenceMatch[1];
 
+      const key = path.replace(/\.value$/, '');
+      if (resolving.includes(key)) {
+        throw new UnresolvedReferenceError(key, 'circular', [...resolving.slice(resolving.indexOf(key)), key]);
+      }
+
       // Navigate the path in the token structure
       const pathParts = path.split('.');
       let value = rootTokens;
@@ -389,20 +1053,29 @@ export function resolveTokenReferences(tokens: any, originalTokens?: any): any {
       }
 
       // If we found a value, recursively resolve it too
-      return resolveTokenReferences(value, rootTokens);
+      return resolveTokenReferences(value, rootTokens, [...resolving, key]);
     }
 
-    return tokens;
+    const evaluated = evaluateExpression(tokens, (path) => {
+      const reference = `{${path}}`;
+      const value = resolveLiteralValue(reference, rootTokens, resolving);
+      if (value === reference) {
+        throw new UnresolvedReferenceError(path.replace(/\.value$/, ''), 'missing');
+      }
+      return value;
+    });
+
+    return evaluated === null ? tokens : evaluated;
   }
 
   if (Array.isArray(tokens)) {
-    return tokens.map(item => resolveTokenReferences(item, rootTokens));
+    return tokens.map(item => resolveTokenReferences(item, rootTokens, resolving));
   }
 
   if (typeof tokens === 'object' && tokens !== null) {
     const resolved: any = {};
     for (const [key, value] of Object.entries(tokens)) {
-      resolved[key] = resolveTokenReferences(value, rootTokens);
+      resolved[key] = resolveTokenReferences(value, rootTokens, resolving);
     }
     return resolved;
   }
@@ -468,6 +1141,8 @@ export async function transformMultiBrandTokensToFigma(
   options: {
     collectionName?: string;
     // Note: targetMode is not used in multi-brand - modes are created from brand names
+    codeSyntax?: CodeSyntaxConfig; // Generate Dev Mode code syntax from token paths
+    baseFontSize?: number; // Font size rem and em dimensions are relative to
   } = {}
 ): Promise<TransformResult> {
   const result: TransformResult = {
@@ -526,26 +1201,19 @@ export async function transformMultiBrandTokensToFigma(
 
     console.log(`🔍 Complete tokens after merge:`, Object.keys(completeTokens));
 
-    // Resolve ALL token references using the complete token set
-    console.log(`🔗 Resolving all token references with complete token context...`);
-    const fullyResolvedTokens = resolveTokenReferences(completeTokens);
-    console.log(`✅ All token references resolved with complete context`);
-
     // Now extract just the base/global portion for the foundation
+    // References stay unresolved so they can be imported as variable aliases;
+    // literal values are resolved per token using the complete token context
     const baseTokens: StyleDictionaryTokens = {};
     for (const file of [...baseFiles, ...globalFiles]) {
       deepMerge(baseTokens, file.tokens);
     }
 
-    // Apply resolved references to base tokens only
-    const resolvedBaseTokens = resolveTokenReferences(baseTokens, fullyResolvedTokens);
-    console.log(`✅ Base tokens resolved using complete context`);
-
     // Step 2: Process each collection
     const tokensByCollection = new Map<string, FlatToken[]>();
 
-    // Start with resolved base tokens
-    const flatBaseTokens = flattenTokens(resolvedBaseTokens);
+    // Start with base tokens
+    const flatBaseTokens = flattenVariableTokens(baseTokens);
     console.log(`🔧 Found ${flatBaseTokens.length} base/global tokens`);
 
     if (flatBaseTokens.length === 0) {
@@ -564,6 +1232,9 @@ export async function transformMultiBrandTokensToFigma(
       tokensByCollection.get(collectionName)!.push(token);
     }
 
+    // Aliases are applied after every collection has been processed
+    const pendingAliases: PendingAlias[] = [];
+
     // Step 3: Create collections and set up modes
     for (const [collectionName, baseTokensForCollection] of tokensByCollection) {
       try {
@@ -604,27 +1275,31 @@ export async function transformMultiBrandTokensToFigma(
               ? token.path
               : getVariableName(token.path);
 
-            const figmaType = getFigmaVariableType(token.type, token.value);
-            const figmaValue = convertTokenValue(token.value, figmaType);
+            const wasExisting = existingVariableNames.has(variableName);
 
-            if (figmaValue === null) {
+            // Set value in Default mode
+            const variable = await setTokenInCollection(
+              collection,
+              variableName,
+              token,
+              completeTokens,
+              pendingAliases,
+              result.warnings,
+              options.baseFontSize,
+              'Default'
+            );
+
+            if (!variable) {
               result.warnings.push(
                 `Skipped token ${token.path}: could not convert value`
               );
               continue;
             }
 
-            const wasExisting = existingVariableNames.has(variableName);
-
-            // Set value in Default mode
-            await setVariableForMode(
-              collection,
-              variableName,
-              figmaType,
-              figmaValue,
-              'Default',
-              token.comment
-            );
+            const codeSyntax = getTokenCodeSyntax(token, options.codeSyntax);
+            if (codeSyntax) {
+              applyVariableCodeSyntax(variable, codeSyntax);
+            }
 
             if (wasExisting) {
               result.variablesUpdated++;
@@ -645,22 +1320,21 @@ export async function transformMultiBrandTokensToFigma(
           console.log(`🏷️ Processing brand: ${brand.name}`);
 
           // Create brand-specific token set
-          const brandTokens = JSON.parse(JSON.stringify(resolvedBaseTokens)); // Deep clone resolved base
+          const brandTokens = deepClone(baseTokens);
+
+          // Resolution context for this brand: everything, with this brand's overrides winning
+          const brandContext = deepClone(completeTokens);
 
           // Merge brand-specific files
           const brandFiles = processedFiles.filter(f => f.brand === brand.name);
           for (const file of brandFiles) {
             deepMerge(brandTokens, file.tokens);
+            deepMerge(brandContext, file.tokens);
             console.log(`🎨 Merged brand file for ${brand.name}: ${file.path}`);
           }
 
-          // Resolve token references in brand tokens using complete context
-          console.log(`🔗 Resolving token references for brand: ${brand.name}`);
-          const resolvedBrandTokens = resolveTokenReferences(brandTokens, fullyResolvedTokens);
-          console.log(`✅ Token references resolved for brand: ${brand.name}`);
-
           // Flatten brand tokens
-          const flatBrandTokens = flattenTokens(resolvedBrandTokens);
+          const flatBrandTokens = flattenVariableTokens(brandTokens);
 
           // Find tokens that exist in this collection
           const brandTokensForCollection = flatBrandTokens.filter(token => {
@@ -677,23 +1351,22 @@ export async function transformMultiBrandTokensToFigma(
                 ? token.path
                 : getVariableName(token.path);
 
-              const figmaType = getFigmaVariableType(token.type, token.value);
-              const figmaValue = convertTokenValue(token.value, figmaType);
-
-              if (figmaValue === null) {
-                continue;
-              }
-
               // Set value in brand mode
-              await setVariableForMode(
+              const variable = await setTokenInCollection(
                 collection,
                 variableName,
-                figmaType,
-                figmaValue,
-                brand.name, // Use brand name as mode name
-                token.comment
+                token,
+                brandContext,
+                pendingAliases,
+                result.warnings,
+                options.baseFontSize,
+                brand.name // Use brand name as mode name
               );
 
+              if (!variable) {
+                continue;
+              }
+
               console.log(`🎨 Set brand value for "${variableName}" in mode "${brand.name}"`);
             } catch (error) {
               result.warnings.push(
@@ -711,6 +1384,9 @@ export async function transformMultiBrandTokensToFigma(
       }
     }
 
+    // Point alias tokens at the variables they reference
+    await applyPendingAliases(pendingAliases, options.collectionName, result);
+
     result.success = result.errors.length === 0;
 
     console.log(`🎉 Multi-brand transformation complete!`);
@@ -729,6 +1405,9 @@ export async function transformMultiBrandTokensToFigma(
   return result;
 }
 
+/**
+ * Parse and validate Style Dictionary JSON
+ */
 export function parseStyleDictionary(jsonString: string): StyleDictionaryTokens {
   try {
     let tokens = JSON.parse(jsonString);
@@ -737,6 +1416,9 @@ export function parseStyleDictionary(jsonString: string): StyleDictionaryTokens
       throw new Error('Invalid token file: expected JSON object');
     }
 
+    // Normalize DTCG files to Style Dictionary shape
+    tokens = normalizeTokens(tokens);
+
     // Resolve all token references before processing
     tokens = resolveTokenReferences(tokens);
 
@@ -0,0 +1,833 @@
+/**
+ * Transform composite tokens to Figma styles and back
+ *
+ * Typography tokens are imported as text styles, shadow tokens as effect styles and
+ * gradient tokens as paint styles, named after the token path. Properties that reference another token are bound
+ * to that token's variable, so the style follows the variable across modes.
+ */
+
+import {
+  ProcessedTokenFile,
+  StyleDictionaryTokens,
+  StyleDictionaryToken,
+  FileStructureMapping,
+  TokenFormat,
+} from '../../shared/types';
+import {
+  getStyleTokenKind,
+  isDesignToken,
+  isGradientStop,
+  isGradientString,
+  setTokenSyncExtension,
+  StyleTokenKind,
+  SYNC_EXTENSION,
+} from '../../shared/token-format';
+import {
+  buildVariableLookup,
+  getAllVariableCollections,
+  parseDimension,
+  rgbaToHex,
+  VariableLookup,
+} from '../figma-api/variables';
+import {
+  getOrCreateTextStyle,
+  getOrCreateEffectStyle,
+  getOrCreatePaintStyle,
+  loadFontForWeight,
+  getFontWeight,
+  isItalicFontStyle,
+} from '../figma-api/styles';
+import {
+  FlatToken,
+  flattenTokens,
+  resolveTokenValue,
+  getAliasReference,
+  findAliasTarget,
+  convertTokenValue,
+  resolveTokenReferences,
+} from './sd-to-figma';
+import { buildReferencePaths, convertAliasToReference } from './figma-to-sd';
+import {
+  GradientKind,
+  ParsedGradient,
+  parseGradient,
+  formatGradient,
+  distributeStopPositions,
+  angleToGradientTransform,
+  gradientTransformToAngle,
+} from './gradients';
+
+export interface StyleTransformResult {
+  stylesCreated: number;
+  stylesUpdated: number;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * A single exported style as a composite token
+ */
+export interface ExportedStyle {
+  kind: StyleTokenKind;
+  styleName: string; // Style name - key in the style file structure
+  tokenPath: string[]; // Path of the token when the style has no recorded source
+  token: StyleDictionaryToken;
+}
+
+// Typography token properties that can be bound to a variable
+const TEXT_STYLE_BINDINGS: Array<{ property: string; field: VariableBindableTextField }> = [
+  { property: 'fontFamily', field: 'fontFamily' },
+  { property: 'fontWeight', field: 'fontWeight' },
+  { property: 'fontSize', field: 'fontSize' },
+  { property: 'lineHeight', field: 'lineHeight' },
+  { property: 'letterSpacing', field: 'letterSpacing' },
+  { property: 'paragraphSpacing', field: 'paragraphSpacing' },
+  { property: 'paragraphIndent', field: 'paragraphIndent' },
+];
+
+// Shadow layer properties (Tokens Studio and DTCG names) that can be bound to a variable
+const SHADOW_BINDINGS: Array<{ properties: string[]; field: VariableBindableEffectField }> = [
+  { properties: ['color'], field: 'color' },
+  { properties: ['offsetX', 'x'], field: 'offsetX' },
+  { properties: ['offsetY', 'y'], field: 'offsetY' },
+  { properties: ['blur'], field: 'radius' },
+  { properties: ['spread'], field: 'spread' },
+];
+
+// Figma paint types of CSS gradient kinds
+const GRADIENT_PAINT_TYPES: { [kind in GradientKind]: GradientPaint['type'] } = {
+  linear: 'GRADIENT_LINEAR',
+  radial: 'GRADIENT_RADIAL',
+  conic: 'GRADIENT_ANGULAR',
+};
+
+const TEXT_CASES: { [css: string]: TextCase } = {
+  none: 'ORIGINAL',
+  uppercase: 'UPPER',
+  lowercase: 'LOWER',
+  capitalize: 'TITLE',
+};
+
+const TEXT_DECORATIONS: { [css: string]: TextDecoration } = {
+  none: 'NONE',
+  underline: 'UNDERLINE',
+  'line-through': 'STRIKETHROUGH',
+};
+
+/**
+ * Unwrap a resolved reference to a whole token to its value
+ */
+function unwrapTokenValue(value: any): any {
+  while (isDesignToken(value)) {
+    const token: any = value;
+    value = '$value' in token ? token.$value : token.value;
+  }
+  return value;
+}
+
+/**
+ * Convert a number or dimension ("16px", "1rem") to a number of pixels
+ */
+function toNumber(value: any, baseFontSize?: number): number {
+  return typeof value === 'number' ? value : parseDimension(String(value), baseFontSize);
+}
+
+/**
+ * Round a number to two decimals for output
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Parse a CSS line height: unitless numbers are multipliers, "%" is a percentage,
+ * dimensions are pixels and "normal"/"auto" is Figma's auto line height
+ */
+function parseLineHeight(value: any, baseFontSize?: number): LineHeight {
+  if (typeof value === 'number') {
+    return { value: value * 100, unit: 'PERCENT' };
+  }
+
+  const text = String(value).trim().toLowerCase();
+  if (text === 'normal' || text === 'auto') {
+    return { unit: 'AUTO' };
+  }
+  if (text.endsWith('%')) {
+    return { value: parseFloat(text), unit: 'PERCENT' };
+  }
+  if (/^-?[\d.]+$/.test(text)) {
+    return { value: parseFloat(text) * 100, unit: 'PERCENT' };
+  }
+
+  return { value: parseDimension(text, baseFontSize), unit: 'PIXELS' };
+}
+
+/**
+ * Format a Figma line height as a token value
+ */
+function formatLineHeight(lineHeight: LineHeight): string | number {
+  if (lineHeight.unit === 'AUTO') {
+    return 'normal';
+  }
+  return lineHeight.unit === 'PERCENT' ? round(lineHeight.value / 100) : `${round(lineHeight.value)}px`;
+}
+
+/**
+ * Parse a CSS letter spacing: "%" and "em" are relative to the font size, everything else is pixels
+ */
+function parseLetterSpacing(value: any, baseFontSize?: number): LetterSpacing {
+  const text = String(value).trim().toLowerCase();
+
+  if (text.endsWith('%')) {
+    return { value: parseFloat(text), unit: 'PERCENT' };
+  }
+  if (text.endsWith('em') && !text.endsWith('rem')) {
+    return { value: parseFloat(text) * 100, unit: 'PERCENT' };
+  }
+
+  return { value: parseDimension(text, baseFontSize), unit: 'PIXELS' };
+}
+
+/**
+ * Format a Figma letter spacing as a token value
+ */
+function formatLetterSpacing(letterSpacing: LetterSpacing): string {
+  return letterSpacing.unit === 'PERCENT' ? `${round(letterSpacing.value)}%` : `${round(letterSpacing.value)}px`;
+}
+
+/**
+ * Figma binds line height and letter spacing in pixels, so relative values can't be bound
+ */
+function canBindProperty(property: string, value: any): boolean {
+  if (property === 'lineHeight') {
+    return parseLineHeight(value).unit === 'PIXELS';
+  }
+  if (property === 'letterSpacing') {
+    return parseLetterSpacing(value).unit === 'PIXELS';
+  }
+  return true;
+}
+
+/**
+ * Create or update the text style of a typography token
+ */
+async function importTextStyle(
+  token: FlatToken,
+  rootTokens: StyleDictionaryTokens,
+  availableFonts: Font[],
+  variables: VariableLookup,
+  collectionOverride: string | undefined,
+  baseFontSize: number | undefined,
+  result: StyleTransformResult
+): Promise<boolean> {
+  const value = resolveTokenValue(token, rootTokens).value;
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Typography value must be an object, got ${typeof value}`);
+  }
+
+  const resolved: { [property: string]: any } = {};
+  for (const [property, propertyValue] of Object.entries(value)) {
+    resolved[property] = unwrapTokenValue(propertyValue);
+  }
+
+  if (!resolved.fontFamily) {
+    throw new Error('Typography value has no fontFamily');
+  }
+
+  // Variables the token's references point to, keyed by the field they are bound to
+  const rawValue: any = token.value && typeof token.value === 'object' ? token.value : {};
+  const bindings = new Map<VariableBindableTextField, Variable>();
+
+  for (const { property, field } of TEXT_STYLE_BINDINGS) {
+    const reference = getAliasReference(rawValue[property]);
+    if (!reference || !canBindProperty(property, resolved[property])) {
+      continue;
+    }
+
+    const variable = findAliasTarget(reference, variables, collectionOverride);
+    if (!variable) {
+      result.warnings.push(`Variable for {${reference}} in ${token.path} not found, using literal ${property}`);
+      continue;
+    }
+
+    // Named weights ("Bold") are bound as the font style
+    bindings.set(property === 'fontWeight' && variable.resolvedType === 'STRING' ? 'fontStyle' : field, variable);
+  }
+
+  const fontName = await loadFontForWeight(
+    String(resolved.fontFamily),
+    resolved.fontWeight !== undefined ? resolved.fontWeight : 400,
+    String(resolved.fontStyle || '').toLowerCase() === 'italic',
+    availableFonts
+  );
+
+  const { style, created } = await getOrCreateTextStyle(token.path);
+  if (!created) {
+    try {
+      // Changing an existing style needs its current font
+      await figma.loadFontAsync(style.fontName);
+    } catch {
+      // Missing fonts are replaced below
+    }
+  }
+
+  // Unbind fields the token no longer references before setting literal values
+  for (const field of Object.keys(style.boundVariables || {}) as VariableBindableTextField[]) {
+    if (!bindings.has(field)) {
+      style.setBoundVariable(field, null);
+    }
+  }
+
+  style.fontName = fontName;
+  if (resolved.fontSize !== undefined) {
+    style.fontSize = toNumber(resolved.fontSize, baseFontSize);
+  }
+  style.lineHeight = resolved.lineHeight !== undefined
+    ? parseLineHeight(resolved.lineHeight, baseFontSize)
+    : { unit: 'AUTO' };
+  style.letterSpacing = resolved.letterSpacing !== undefined
+    ? parseLetterSpacing(resolved.letterSpacing, baseFontSize)
+    : { value: 0, unit: 'PIXELS' };
+  style.paragraphSpacing = resolved.paragraphSpacing !== undefined
+    ? toNumber(resolved.paragraphSpacing, baseFontSize)
+    : 0;
+  style.paragraphIndent = resolved.paragraphIndent !== undefined
+    ? toNumber(resolved.paragraphIndent, baseFontSize)
+    : 0;
+  style.textCase = TEXT_CASES[String(resolved.textCase || 'none').toLowerCase()] || 'ORIGINAL';
+  style.textDecoration = TEXT_DECORATIONS[String(resolved.textDecoration || 'none').toLowerCase()] || 'NONE';
+  style.description = token.comment || '';
+
+  for (const [field, variable] of bindings) {
+    style.setBoundVariable(field, variable);
+  }
+
+  console.log(`🔤 ${created ? 'Created' : 'Updated'} text style ${token.path} (${fontName.family} ${fontName.style}, ${bindings.size} bound propert${bindings.size === 1 ? 'y' : 'ies'})`);
+  return created;
+}
+
+/**
+ * Create or update the effect style of a shadow token.
+ * Every layer becomes a drop shadow, or an inner shadow when it is inset.
+ */
+async function importEffectStyle(
+  token: FlatToken,
+  rootTokens: StyleDictionaryTokens,
+  variables: VariableLookup,
+  collectionOverride: string | undefined,
+  baseFontSize: number | undefined,
+  result: StyleTransformResult
+): Promise<boolean> {
+  const value = unwrapTokenValue(resolveTokenValue(token, rootTokens).value);
+  const layers: any[] = Array.isArray(value) ? value : [value];
+  const rawLayers: any[] = Array.isArray(token.value) ? token.value : [token.value];
+
+  const effects: Effect[] = [];
+  for (let i = 0; i < layers.length; i++) {
+    const layer = unwrapTokenValue(layers[i]);
+    if (!layer || typeof layer !== 'object') {
+      throw new Error(`Shadow layer must be an object, got ${typeof layer}`);
+    }
+
+    const resolved: { [property: string]: any } = {};
+    for (const [property, propertyValue] of Object.entries(layer)) {
+      resolved[property] = unwrapTokenValue(propertyValue);
+    }
+
+    const inset = resolved.inset === true || String(resolved.type).toLowerCase() === 'innershadow';
+    let effect: Effect = {
+      type: inset ? 'INNER_SHADOW' : 'DROP_SHADOW',
+      color: convertTokenValue(resolved.color || '#000000', 'COLOR') as RGBA,
+      offset: {
+        x: toNumber(resolved.offsetX !== undefined ? resolved.offsetX : resolved.x || 0, baseFontSize),
+        y: toNumber(resolved.offsetY !== undefined ? resolved.offsetY : resolved.y || 0, baseFontSize),
+      },
+      radius: toNumber(resolved.blur || 0, baseFontSize),
+      spread: toNumber(resolved.spread || 0, baseFontSize),
+      visible: true,
+      blendMode: 'NORMAL',
+    };
+
+    const rawLayer = rawLayers[i] && typeof rawLayers[i] === 'object' ? rawLayers[i] : {};
+    for (const { properties, field } of SHADOW_BINDINGS) {
+      const property = properties.find((p) => p in rawLayer);
+      const reference = property ? getAliasReference(rawLayer[property]) : null;
+      if (!reference) {
+        continue;
+      }
+
+      const variable = findAliasTarget(reference, variables, collectionOverride);
+      if (!variable) {
+        result.warnings.push(`Variable for {${reference}} in ${token.path} not found, using literal ${property}`);
+        continue;
+      }
+
+      effect = figma.variables.setBoundVariableForEffect(effect, field, variable);
+    }
+
+    effects.push(effect);
+  }
+
+  const { style, created } = await getOrCreateEffectStyle(token.path);
+  style.effects = effects;
+  style.description = token.comment || '';
+
+  console.log(`🌗 ${created ? 'Created' : 'Updated'} effect style ${token.path} (${effects.length} shadow(s))`);
+  return created;
+}
+
+/**
+ * Resolve a color as written in a token (literal or reference) to RGBA and the variable it references
+ */
+function resolveColor(
+  color: any,
+  rootTokens: StyleDictionaryTokens,
+  variables: VariableLookup,
+  collectionOverride: string | undefined,
+  tokenPath: string,
+  result: StyleTransformResult
+): { rgba: RGBA; variable: Variable | null } {
+  const rgba = convertTokenValue(unwrapTokenValue(resolveTokenReferences(color, rootTokens)), 'COLOR') as RGBA;
+
+  const reference = getAliasReference(color);
+  if (!reference) {
+    return { rgba, variable: null };
+  }
+
+  const variable = findAliasTarget(reference, variables, collectionOverride);
+  if (!variable) {
+    result.warnings.push(`Variable for {${reference}} in ${tokenPath} not found, using literal color`);
+  }
+
+  return { rgba, variable };
+}
+
+/**
+ * Create a gradient paint; stops that reference a color token are bound to its variable
+ */
+function createGradientPaint(
+  gradient: ParsedGradient,
+  rootTokens: StyleDictionaryTokens,
+  variables: VariableLookup,
+  collectionOverride: string | undefined,
+  tokenPath: string,
+  result: StyleTransformResult
+): GradientPaint {
+  const positions = distributeStopPositions(gradient.stops);
+  const gradientStops: ColorStop[] = [];
+
+  for (let i = 0; i < gradient.stops.length; i++) {
+    const { rgba, variable } = resolveColor(gradient.stops[i].color, rootTokens, variables, collectionOverride, tokenPath, result);
+    gradientStops.push({
+      position: positions[i],
+      color: rgba,
+      ...(variable ? { boundVariables: { color: figma.variables.createVariableAlias(variable) } } : {}),
+    });
+  }
+
+  return {
+    type: GRADIENT_PAINT_TYPES[gradient.kind],
+    // Radial and conic gradients are centred in the layer
+    gradientTransform: gradient.kind === 'linear' ? angleToGradientTransform(gradient.angle) : [[1, 0, 0], [0, 1, 0]],
+    gradientStops,
+  };
+}
+
+/**
+ * Create a solid paint, bound to the variable of a referenced color token
+ */
+function createSolidPaint(
+  color: any,
+  rootTokens: StyleDictionaryTokens,
+  variables: VariableLookup,
+  collectionOverride: string | undefined,
+  tokenPath: string,
+  result: StyleTransformResult
+): SolidPaint {
+  const { rgba, variable } = resolveColor(color, rootTokens, variables, collectionOverride, tokenPath, result);
+  const paint: SolidPaint = { type: 'SOLID', color: { r: rgba.r, g: rgba.g, b: rgba.b }, opacity: rgba.a };
+
+  return variable ? figma.variables.setBoundVariableForPaint(paint, 'color', variable) : paint;
+}
+
+/**
+ * Create or update the paint style of a gradient token.
+ * DTCG stop arrays become a single gradient; CSS values may list several fills, top first.
+ */
+async function importPaintStyle(
+  token: FlatToken,
+  rootTokens: StyleDictionaryTokens,
+  variables: VariableLookup,
+  collectionOverride: string | undefined,
+  result: StyleTransformResult
+): Promise<boolean> {
+  // Embedded references are resolved per stop, so only whole-token references are followed here
+  const value: any = getAliasReference(token.value) ? resolveTokenValue(token, rootTokens).value : token.value;
+  const paints: Paint[] = [];
+
+  if (Array.isArray(value) && value.every(isGradientStop)) {
+    // Kind and angle aren't part of DTCG gradients, push records them in `$extensions`
+    const extension = (token.extensions && token.extensions[SYNC_EXTENSION]) || {};
+    const gradient: ParsedGradient = {
+      kind: extension.gradientType || 'linear',
+      angle: typeof extension.angle === 'number' ? extension.angle : 180,
+      stops: value.map((stop: any) => ({ color: stop.color, position: Number(stop.position) })),
+    };
+    paints.push(createGradientPaint(gradient, rootTokens, variables, collectionOverride, token.path, result));
+  } else {
+    const layers: any[] = Array.isArray(value) ? value : [value];
+
+    // CSS lists fills top first, Figma paints are bottom first
+    for (const layer of [...layers].reverse()) {
+      paints.push(
+        isGradientString(layer)
+          ? createGradientPaint(parseGradient(layer), rootTokens, variables, collectionOverride, token.path, result)
+          : createSolidPaint(layer, rootTokens, variables, collectionOverride, token.path, result)
+      );
+    }
+  }
+
+  const { style, created } = await getOrCreatePaintStyle(token.path);
+  style.paints = paints;
+  style.description = token.comment || '';
+
+  console.log(`🌈 ${created ? 'Created' : 'Updated'} paint style ${token.path} (${paints.length} fill(s))`);
+  return created;
+}
+
+/**
+ * Collect the composite style tokens of files keyed by token path (later files win)
+ */
+function collectStyleTokens(files: ProcessedTokenFile[]): Map<string, { token: FlatToken; file: string }> {
+  const collected = new Map<string, { token: FlatToken; file: string }>();
+
+  for (const file of files) {
+    for (const token of flattenTokens(file.tokens)) {
+      if (getStyleTokenKind(token)) {
+        collected.set(token.path, { token, file: file.path });
+      }
+    }
+  }
+
+  return collected;
+}
+
+/**
+ * Create or update local styles from composite tokens.
+ * Runs after the variables have been imported so references can be bound.
+ */
+export async function transformTokensToStyles(
+  files: ProcessedTokenFile[],
+  rootTokens: StyleDictionaryTokens,
+  options: {
+    collectionName?: string;
+    baseFontSize?: number; // Font size rem and em dimensions are relative to
+  } = {}
+): Promise<StyleTransformResult> {
+  const result: StyleTransformResult = {
+    stylesCreated: 0,
+    stylesUpdated: 0,
+    errors: [],
+    warnings: [],
+  };
+
+  const styleTokens = collectStyleTokens(files);
+  if (styleTokens.size === 0) {
+    return result;
+  }
+
+  // Fonts are only listed when there are text styles to import
+  let availableFonts: Font[] | null = null;
+  // Variables referenced by the styles, indexed once for every binding
+  const variables = await buildVariableLookup();
+
+  for (const { token } of styleTokens.values()) {
+    const kind = getStyleTokenKind(token);
+
+    try {
+      let created: boolean;
+      if (kind === 'text') {
+        availableFonts = availableFonts || await figma.listAvailableFontsAsync();
+        created = await importTextStyle(
+          token,
+          rootTokens,
+          availableFonts,
+          variables,
+          options.collectionName,
+          options.baseFontSize,
+          result
+        );
+      } else if (kind === 'effect') {
+        created = await importEffectStyle(token, rootTokens, variables, options.collectionName, options.baseFontSize, result);
+      } else {
+        created = await importPaintStyle(token, rootTokens, variables, options.collectionName, result);
+      }
+
+      if (created) {
+        result.stylesCreated++;
+      } else {
+        result.stylesUpdated++;
+      }
+    } catch (error) {
+      result.errors.push(
+        `Failed to import ${kind} style ${token.path}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record the source file of every style token so push can write it back
+ */
+export function buildStyleFileStructure(files: ProcessedTokenFile[]): FileStructureMapping {
+  const mapping: FileStructureMapping = {};
+
+  for (const [path, { file }] of collectStyleTokens(files)) {
+    mapping[path] = { file, tokenPath: path.split('/') };
+  }
+
+  return mapping;
+}
+
+/**
+ * Convert a text style to a typography token.
+ * Bound properties are written as references to their variable's token.
+ */
+async function exportTextStyle(
+  style: TextStyle,
+  toReference: (alias: VariableAlias) => Promise<string>
+): Promise<StyleDictionaryToken> {
+  const referenceOr = async (field: VariableBindableTextField, literal: any) => {
+    const alias = style.boundVariables?.[field];
+    return alias ? await toReference(alias) : literal;
+  };
+
+  const fontWeight = getFontWeight(style.fontName.style);
+  const value: { [property: string]: any } = {
+    fontFamily: await referenceOr('fontFamily', style.fontName.family),
+    fontWeight: await referenceOr(
+      'fontWeight',
+      await referenceOr('fontStyle', fontWeight !== null ? fontWeight : style.fontName.style)
+    ),
+    fontSize: await referenceOr('fontSize', `${round(style.fontSize)}px`),
+    lineHeight: await referenceOr('lineHeight', formatLineHeight(style.lineHeight)),
+    letterSpacing: await referenceOr('letterSpacing', formatLetterSpacing(style.letterSpacing)),
+  };
+
+  // Optional properties are only written when they are set
+  if (style.paragraphSpacing !== 0 || style.boundVariables?.paragraphSpacing) {
+    value.paragraphSpacing = await referenceOr('paragraphSpacing', `${round(style.paragraphSpacing)}px`);
+  }
+  if (style.paragraphIndent !== 0 || style.boundVariables?.paragraphIndent) {
+    value.paragraphIndent = await referenceOr('paragraphIndent', `${round(style.paragraphIndent)}px`);
+  }
+  if (isItalicFontStyle(style.fontName.style)) {
+    value.fontStyle = 'italic';
+  }
+
+  const textCase = Object.keys(TEXT_CASES).find((css) => TEXT_CASES[css] === style.textCase);
+  if (textCase && textCase !== 'none') {
+    value.textCase = textCase;
+  }
+
+  const textDecoration = Object.keys(TEXT_DECORATIONS).find((css) => TEXT_DECORATIONS[css] === style.textDecoration);
+  if (textDecoration && textDecoration !== 'none') {
+    value.textDecoration = textDecoration;
+  }
+
+  const token: StyleDictionaryToken = { value, type: 'typography' };
+  if (style.description) {
+    token.comment = style.description;
+  }
+
+  return token;
+}
+
+/**
+ * Convert an effect style to a shadow token, or null if it has no visible shadows.
+ * Layers use DTCG property names for DTCG files and Tokens Studio names otherwise.
+ */
+async function exportEffectStyle(
+  style: EffectStyle,
+  format: TokenFormat,
+  toReference: (alias: VariableAlias) => Promise<string>
+): Promise<StyleDictionaryToken | null> {
+  const shadows = style.effects.filter(
+    (e): e is DropShadowEffect | InnerShadowEffect =>
+      (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW') && e.visible
+  );
+  if (shadows.length === 0) {
+    return null;
+  }
+
+  const layers: any[] = [];
+  for (const shadow of shadows) {
+    const referenceOr = async (field: VariableBindableEffectField, literal: any) => {
+      const alias = shadow.boundVariables?.[field];
+      return alias ? await toReference(alias) : literal;
+    };
+
+    const color = await referenceOr('color', rgbaToHex(shadow.color));
+    const offsetX = await referenceOr('offsetX', `${round(shadow.offset.x)}px`);
+    const offsetY = await referenceOr('offsetY', `${round(shadow.offset.y)}px`);
+    const blur = await referenceOr('radius', `${round(shadow.radius)}px`);
+    const spread = await referenceOr('spread', `${round(shadow.spread || 0)}px`);
+    const inset = shadow.type === 'INNER_SHADOW';
+
+    layers.push(
+      format === 'dtcg'
+        ? { color, offsetX, offsetY, blur, spread, ...(inset ? { inset: true } : {}) }
+        : { x: offsetX, y: offsetY, blur, spread, color, type: inset ? 'innerShadow' : 'dropShadow' }
+    );
+  }
+
+  const token: StyleDictionaryToken = {
+    value: layers.length === 1 ? layers[0] : layers,
+    type: format === 'dtcg' ? 'shadow' : 'boxShadow',
+  };
+  if (style.description) {
+    token.comment = style.description;
+  }
+
+  return token;
+}
+
+/**
+ * Get the CSS gradient kind of a Figma gradient paint.
+ * Diamond gradients have no CSS equivalent and are exported as radial gradients.
+ */
+function getGradientKind(paint: GradientPaint): GradientKind {
+  if (paint.type === 'GRADIENT_LINEAR') {
+    return 'linear';
+  }
+  return paint.type === 'GRADIENT_ANGULAR' ? 'conic' : 'radial';
+}
+
+/**
+ * Convert a paint style to a gradient token, or null if it is a single solid color
+ * (solid colors are synced as variables). A single gradient is written as DTCG stops
+ * for DTCG files; everything else is written as CSS, several fills as a list, top first.
+ */
+async function exportPaintStyle(
+  style: PaintStyle,
+  format: TokenFormat,
+  toReference: (alias: VariableAlias) => Promise<string>
+): Promise<StyleDictionaryToken | null> {
+  const paints = style.paints.filter((p) => p.visible !== false);
+  const isGradient = (p: Paint): p is GradientPaint => p.type.startsWith('GRADIENT_');
+
+  if (paints.length === 0 || (paints.length === 1 && !isGradient(paints[0]))) {
+    return null;
+  }
+  if (paints.some((p) => p.type !== 'SOLID' && !isGradient(p))) {
+    throw new Error('Image and video fills have no token equivalent');
+  }
+
+  const getStops = async (paint: GradientPaint) => {
+    const opacity = paint.opacity !== undefined ? paint.opacity : 1;
+    const stops: Array<{ color: string; position: number }> = [];
+    for (const stop of paint.gradientStops) {
+      const alias = stop.boundVariables?.color;
+      stops.push({
+        color: alias ? await toReference(alias) : rgbaToHex({ ...stop.color, a: stop.color.a * opacity }),
+        position: Math.round(stop.position * 10000) / 10000,
+      });
+    }
+    return stops;
+  };
+
+  let token: StyleDictionaryToken;
+  if (format === 'dtcg' && paints.length === 1) {
+    const paint = paints[0] as GradientPaint;
+    const kind = getGradientKind(paint);
+    token = setTokenSyncExtension<StyleDictionaryToken>(
+      { value: await getStops(paint), type: 'gradient' },
+      { gradientType: kind, ...(kind === 'linear' ? { angle: gradientTransformToAngle(paint.gradientTransform) } : {}) }
+    );
+  } else {
+    const layers: string[] = [];
+    for (const paint of [...paints].reverse()) {
+      if (isGradient(paint)) {
+        layers.push(formatGradient(getGradientKind(paint), gradientTransformToAngle(paint.gradientTransform), await getStops(paint)));
+      } else {
+        const solid = paint as SolidPaint;
+        const alias = solid.boundVariables?.color;
+        layers.push(alias
+          ? await toReference(alias)
+          : rgbaToHex({ ...solid.color, a: solid.opacity !== undefined ? solid.opacity : 1 }));
+      }
+    }
+    token = { value: layers.length === 1 ? layers[0] : layers, type: 'gradient' };
+  }
+
+  if (style.description) {
+    token.comment = style.description;
+  }
+
+  return token;
+}
+
+/**
+ * Export local text, effect and paint styles as composite tokens.
+ * styleNames lists every local style, including those that could not be exported.
+ */
+export async function transformStylesToTokens(options: {
+  format?: TokenFormat;
+  referenceStyle?: 'path' | 'value-suffix';
+} = {}): Promise<{ styles: ExportedStyle[]; styleNames: string[]; errors: string[] }> {
+  const styles: ExportedStyle[] = [];
+  const errors: string[] = [];
+
+  const textStyles = await figma.getLocalTextStylesAsync();
+  const effectStyles = await figma.getLocalEffectStylesAsync();
+  const paintStyles = await figma.getLocalPaintStylesAsync();
+  const styleNames = [...textStyles, ...effectStyles, ...paintStyles].map((style) => style.name);
+  if (styleNames.length === 0) {
+    return { styles, styleNames, errors };
+  }
+
+  const referencePaths = await buildReferencePaths(await getAllVariableCollections());
+  const valueSuffix = options.referenceStyle === 'value-suffix' && options.format !== 'dtcg';
+  const toReference = (alias: VariableAlias) => convertAliasToReference(alias, referencePaths, valueSuffix);
+
+  for (const style of textStyles) {
+    try {
+      const token = await exportTextStyle(style, toReference);
+      styles.push({ kind: 'text', styleName: style.name, tokenPath: style.name.split('/'), token });
+    } catch (error) {
+      errors.push(
+        `Failed to export text style ${style.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  for (const style of effectStyles) {
+    try {
+      const token = await exportEffectStyle(style, options.format || 'style-dictionary', toReference);
+      if (token) {
+        styles.push({ kind: 'effect', styleName: style.name, tokenPath: style.name.split('/'), token });
+      }
+    } catch (error) {
+      errors.push(
+        `Failed to export effect style ${style.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  for (const style of paintStyles) {
+    try {
+      const token = await exportPaintStyle(style, options.format || 'style-dictionary', toReference);
+      if (token) {
+        styles.push({ kind: 'paint', styleName: style.name, tokenPath: style.name.split('/'), token });
+      }
+    } catch (error) {
+      errors.push(
+        `Failed to export paint style ${style.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  return { styles, styleNames, errors };
+}
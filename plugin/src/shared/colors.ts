@@ -0,0 +1,726 @@
+/**
+ * CSS Color Module 4 parsing and formatting
+ * Parses every CSS color syntax to sRGB, gamut mapping wide-gamut colors the way browsers do,
+ * and writes sRGB colors back in the syntax a token originally used
+ */
+
+export interface ColorRGBA {
+  r: number; // 0 - 1
+  g: number;
+  b: number;
+  a: number;
+}
+
+type Vector = [number, number, number];
+type Matrix = [Vector, Vector, Vector];
+
+// CSS named colors
+const NAMED_COLORS: { [name: string]: string } = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1',
+  darkviolet: '9400d3', deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+  dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff',
+  gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080',
+  green: '008000', greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4',
+  indianred: 'cd5c5c', indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080',
+  lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90',
+  lightgrey: 'd3d3d3', lightpink: 'ffb6c1', lightsalmon: 'ffa07a', lightseagreen: '20b2aa',
+  lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899', lightsteelblue: 'b0c4de',
+  lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6', magenta: 'ff00ff',
+  maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a',
+  mediumturquoise: '48d1cc', mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa',
+  mistyrose: 'ffe4e1', moccasin: 'ffe4b5', navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6',
+  olive: '808000', olivedrab: '6b8e23', orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6',
+  palegoldenrod: 'eee8aa', palegreen: '98fb98', paleturquoise: 'afeeee', palevioletred: 'db7093',
+  papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f', pink: 'ffc0cb', plum: 'dda0dd',
+  powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399', red: 'ff0000', rosybrown: 'bc8f8f',
+  royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57',
+  seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+  slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f', steelblue: '4682b4',
+  tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8', tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee',
+  wheat: 'f5deb3', white: 'ffffff', whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+};
+
+// Color space conversion matrices from CSS Color 4
+const LINEAR_SRGB_TO_XYZ: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+const LINEAR_P3_TO_XYZ: Matrix = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+const LINEAR_A98_TO_XYZ: Matrix = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+];
+const LINEAR_REC2020_TO_XYZ: Matrix = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+const D50_TO_D65: Matrix = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+const IDENTITY: Matrix = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+const XYZ_TO_LMS: Matrix = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+const LMS_TO_OKLAB: Matrix = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.42859224204858, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757548730775],
+];
+
+// D50 reference white of Lab
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+// Gamut mapping: just noticeable difference in OKLab, and the precision of the chroma search
+const GAMUT_JND = 0.02;
+const GAMUT_EPSILON = 0.0001;
+
+/**
+ * Multiply a 3x3 matrix with a vector
+ */
+function multiply(m: Matrix, v: Vector): Vector {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ];
+}
+
+/**
+ * Invert a 3x3 matrix
+ */
+function invert(m: Matrix): Matrix {
+  const [[a, b, c], [d, e, f], [g, h, i]] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+// Transfer functions apply to the magnitude so out of gamut (negative) values survive
+const signed = (fn: (v: number) => number) => (v: number) => (v < 0 ? -fn(-v) : fn(v));
+
+const srgbToLinear = signed((v) => (v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)));
+const srgbFromLinear = signed((v) => (v > 0.0031308 ? 1.055 * Math.pow(v, 1 / 2.4) - 0.055 : 12.92 * v));
+
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/**
+ * An RGB color space of color(): transfer function, matrix to XYZ and reference white
+ */
+interface RGBSpace {
+  toLinear: (v: number) => number;
+  fromLinear: (v: number) => number;
+  toXYZ: Matrix;
+  white: 'D65' | 'D50';
+}
+
+const linear = (v: number) => v;
+
+const COLOR_SPACES: { [name: string]: RGBSpace } = {
+  srgb: { toLinear: srgbToLinear, fromLinear: srgbFromLinear, toXYZ: LINEAR_SRGB_TO_XYZ, white: 'D65' },
+  'srgb-linear': { toLinear: linear, fromLinear: linear, toXYZ: LINEAR_SRGB_TO_XYZ, white: 'D65' },
+  'display-p3': { toLinear: srgbToLinear, fromLinear: srgbFromLinear, toXYZ: LINEAR_P3_TO_XYZ, white: 'D65' },
+  'a98-rgb': {
+    toLinear: signed((v) => Math.pow(v, 563 / 256)),
+    fromLinear: signed((v) => Math.pow(v, 256 / 563)),
+    toXYZ: LINEAR_A98_TO_XYZ,
+    white: 'D65',
+  },
+  'prophoto-rgb': {
+    toLinear: signed((v) => (v <= 16 / 512 ? v / 16 : Math.pow(v, 1.8))),
+    fromLinear: signed((v) => (v >= 1 / 512 ? Math.pow(v, 1 / 1.8) : 16 * v)),
+    toXYZ: LINEAR_PROPHOTO_TO_XYZ_D50,
+    white: 'D50',
+  },
+  rec2020: {
+    toLinear: signed((v) =>
+      v < REC2020_BETA * 4.5 ? v / 4.5 : Math.pow((v + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)
+    ),
+    fromLinear: signed((v) => (v > REC2020_BETA ? REC2020_ALPHA * Math.pow(v, 0.45) - (REC2020_ALPHA - 1) : 4.5 * v)),
+    toXYZ: LINEAR_REC2020_TO_XYZ,
+    white: 'D65',
+  },
+  xyz: { toLinear: linear, fromLinear: linear, toXYZ: IDENTITY, white: 'D65' },
+  'xyz-d65': { toLinear: linear, fromLinear: linear, toXYZ: IDENTITY, white: 'D65' },
+  'xyz-d50': { toLinear: linear, fromLinear: linear, toXYZ: IDENTITY, white: 'D50' },
+};
+
+/**
+ * Convert a color() space's coordinates to XYZ D65
+ */
+function spaceToXYZ(space: RGBSpace, coords: Vector): Vector {
+  const xyz = multiply(space.toXYZ, coords.map(space.toLinear) as Vector);
+  return space.white === 'D50' ? multiply(D50_TO_D65, xyz) : xyz;
+}
+
+/**
+ * Convert XYZ D65 to a color() space's coordinates
+ */
+function xyzToSpace(space: RGBSpace, xyz: Vector): Vector {
+  const adapted = space.white === 'D50' ? multiply(invert(D50_TO_D65), xyz) : xyz;
+  return multiply(invert(space.toXYZ), adapted).map(space.fromLinear) as Vector;
+}
+
+const srgbToXYZ = (rgb: Vector) => spaceToXYZ(COLOR_SPACES.srgb, rgb);
+const xyzToSrgb = (xyz: Vector) => xyzToSpace(COLOR_SPACES.srgb, xyz);
+
+/**
+ * Convert CIE Lab (D50) to XYZ D65
+ */
+function labToXYZ([l, a, b]: Vector): Vector {
+  const f1 = (l + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+
+  const x = Math.pow(f0, 3) > LAB_EPSILON ? Math.pow(f0, 3) : (116 * f0 - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? Math.pow(f1, 3) : l / LAB_KAPPA;
+  const z = Math.pow(f2, 3) > LAB_EPSILON ? Math.pow(f2, 3) : (116 * f2 - 16) / LAB_KAPPA;
+
+  return multiply(D50_TO_D65, [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]]);
+}
+
+/**
+ * Convert XYZ D65 to CIE Lab (D50)
+ */
+function xyzToLab(xyz: Vector): Vector {
+  const d50 = multiply(invert(D50_TO_D65), xyz);
+  const [f0, f1, f2] = d50.map((v, i) => {
+    const scaled = v / D50_WHITE[i];
+    return scaled > LAB_EPSILON ? Math.cbrt(scaled) : (LAB_KAPPA * scaled + 16) / 116;
+  });
+
+  return [116 * f1 - 16, 500 * (f0 - f1), 200 * (f1 - f2)];
+}
+
+/**
+ * Convert OKLab to XYZ D65
+ */
+function oklabToXYZ(lab: Vector): Vector {
+  const lms = multiply(invert(LMS_TO_OKLAB), lab).map((v) => v * v * v) as Vector;
+  return multiply(invert(XYZ_TO_LMS), lms);
+}
+
+/**
+ * Convert XYZ D65 to OKLab
+ */
+function xyzToOklab(xyz: Vector): Vector {
+  const lms = multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as Vector;
+  return multiply(LMS_TO_OKLAB, lms);
+}
+
+/**
+ * Convert polar (LCH) coordinates to rectangular (Lab)
+ */
+function polarToRectangular([l, c, h]: Vector): Vector {
+  const radians = (h * Math.PI) / 180;
+  return [l, c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+/**
+ * Convert rectangular (Lab) coordinates to polar (LCH)
+ */
+function rectangularToPolar([l, a, b]: Vector): Vector {
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return [l, Math.sqrt(a * a + b * b), (hue + 360) % 360];
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness 0 - 1) to sRGB
+ */
+function hslToSrgb([h, s, l]: Vector): Vector {
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Convert sRGB to HSL (hue in degrees, saturation and lightness 0 - 1)
+ */
+function srgbToHsl([r, g, b]: Vector): Vector {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+
+  if (d === 0) {
+    return [0, 0, l];
+  }
+
+  const s = l === 0 || l === 1 ? 0 : d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) {
+    h = ((g - b) / d + (g < b ? 6 : 0)) * 60;
+  } else if (max === g) {
+    h = ((b - r) / d + 2) * 60;
+  } else {
+    h = ((r - g) / d + 4) * 60;
+  }
+
+  return [h, s, l];
+}
+
+/**
+ * Convert HWB (hue in degrees, whiteness and blackness 0 - 1) to sRGB
+ */
+function hwbToSrgb([h, w, b]: Vector): Vector {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb([h, 1, 0.5]).map((v) => v * (1 - w - b) + w) as Vector;
+}
+
+/**
+ * Check if sRGB coordinates are displayable
+ */
+function inGamut(rgb: Vector): boolean {
+  return rgb.every((v) => v >= -GAMUT_EPSILON && v <= 1 + GAMUT_EPSILON);
+}
+
+const clip = (rgb: Vector) => rgb.map((v) => Math.min(1, Math.max(0, v))) as Vector;
+
+/**
+ * Distance of two sRGB colors in OKLab
+ */
+function deltaEOK(a: Vector, b: Vector): number {
+  const [l1, a1, b1] = xyzToOklab(srgbToXYZ(a));
+  const [l2, a2, b2] = xyzToOklab(srgbToXYZ(b));
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+/**
+ * Map an out of gamut color into sRGB the way CSS Color 4 does:
+ * reduce OKLCH chroma until clipping the color is no longer noticeable
+ */
+function gamutMap(rgb: Vector): Vector {
+  if (inGamut(rgb)) {
+    return clip(rgb);
+  }
+
+  const [l, c, h] = rectangularToPolar(xyzToOklab(srgbToXYZ(rgb)));
+  if (l >= 1) {
+    return [1, 1, 1];
+  }
+  if (l <= 0) {
+    return [0, 0, 0];
+  }
+
+  const fromOklch = (chroma: number) => xyzToSrgb(oklabToXYZ(polarToRectangular([l, chroma, h])));
+  let min = 0;
+  let max = c;
+  let minInGamut = true;
+  let clipped = clip(rgb);
+
+  if (deltaEOK(clipped, rgb) < GAMUT_JND) {
+    return clipped;
+  }
+
+  while (max - min > GAMUT_EPSILON) {
+    const chroma = (min + max) / 2;
+    const current = fromOklch(chroma);
+
+    if (minInGamut && inGamut(current)) {
+      min = chroma;
+      continue;
+    }
+
+    clipped = clip(current);
+    const delta = deltaEOK(clipped, current);
+    if (delta < GAMUT_JND) {
+      if (GAMUT_JND - delta < GAMUT_EPSILON) {
+        return clipped;
+      }
+      minInGamut = false;
+      min = chroma;
+    } else {
+      max = chroma;
+    }
+  }
+
+  return clipped;
+}
+
+/**
+ * The syntax a color was written in
+ */
+interface ColorSyntax {
+  format: string; // "hex", "named" or the function name ("rgba", "oklch", "color")
+  legacy: boolean; // Comma separated arguments
+  space?: string; // Color space of color()
+  shortHex?: boolean;
+}
+
+/**
+ * Parse a number or percentage; percentages are scaled so 100% is `percentScale`
+ */
+function parseNumber(text: string, percentScale: number): number {
+  if (text === 'none') {
+    return 0;
+  }
+
+  const value = parseFloat(text);
+  if (isNaN(value) || !/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?%?$/.test(text)) {
+    throw new Error(`Invalid color component: ${text}`);
+  }
+
+  return text.endsWith('%') ? (value / 100) * percentScale : value;
+}
+
+/**
+ * Parse a hue in degrees ("120", "120deg", "0.5turn", "3rad", "100grad")
+ */
+function parseHue(text: string): number {
+  if (text === 'none') {
+    return 0;
+  }
+
+  const match = text.match(/^([+-]?[\d.]+(?:e[+-]?\d+)?)(deg|grad|rad|turn)?$/);
+  if (!match) {
+    throw new Error(`Invalid hue: ${text}`);
+  }
+
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'turn':
+      return value * 360;
+    case 'rad':
+      return (value * 180) / Math.PI;
+    case 'grad':
+      return value * 0.9;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parse the arguments of a color function: "r g b / a" or legacy "r, g, b, a"
+ */
+function parseArguments(body: string): { components: string[]; alpha?: string; legacy: boolean } {
+  if (body.includes(',')) {
+    const components = body.split(',').map((c) => c.trim());
+    return { components: components.slice(0, 3), alpha: components[3], legacy: true };
+  }
+
+  const [main, alpha] = body.split('/');
+  return { components: main.trim().split(/\s+/), alpha: alpha && alpha.trim(), legacy: false };
+}
+
+/**
+ * Parse a CSS color to sRGB coordinates (possibly out of gamut), alpha and its syntax
+ */
+function parseColorSyntax(text: string): { rgb: Vector; alpha: number; syntax: ColorSyntax } {
+  const color = text.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    const shortHex = digits.length <= 4;
+    if (shortHex) {
+      digits = digits.split('').map((c) => c + c).join('');
+    }
+
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255;
+    return {
+      rgb: [channel(0), channel(1), channel(2)],
+      alpha: digits.length === 8 ? channel(3) : 1,
+      syntax: { format: 'hex', legacy: false, shortHex },
+    };
+  }
+
+  if (color === 'transparent') {
+    return { rgb: [0, 0, 0], alpha: 0, syntax: { format: 'named', legacy: false } };
+  }
+  if (color in NAMED_COLORS) {
+    return { ...parseColorSyntax(`#${NAMED_COLORS[color]}`), syntax: { format: 'named', legacy: false } };
+  }
+
+  const fn = color.match(/^([a-z0-9-]+)\(([^()]*)\)$/);
+  if (!fn) {
+    throw new Error(`Invalid color: ${text}`);
+  }
+
+  const name = fn[1];
+  const args = parseArguments(fn[2]);
+  const alpha = args.alpha === undefined ? 1 : Math.min(1, Math.max(0, parseNumber(args.alpha, 1)));
+  const syntax: ColorSyntax = { format: name, legacy: args.legacy };
+
+  if (name === 'color') {
+    const [spaceName, ...coords] = args.components;
+    const space = COLOR_SPACES[spaceName];
+    if (!space || coords.length !== 3) {
+      throw new Error(`Unsupported color space: ${spaceName}`);
+    }
+    const values = coords.map((c) => parseNumber(c, 1)) as Vector;
+    return { rgb: xyzToSrgb(spaceToXYZ(space, values)), alpha, syntax: { ...syntax, space: spaceName } };
+  }
+
+  const [c1, c2, c3] = args.components;
+  if (args.components.length !== 3) {
+    throw new Error(`Expected three color components: ${text}`);
+  }
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba':
+      return { rgb: [c1, c2, c3].map((c) => parseNumber(c, 255) / 255) as Vector, alpha, syntax };
+    case 'hsl':
+    case 'hsla':
+      return {
+        rgb: hslToSrgb([parseHue(c1), parseNumber(c2, 100) / 100, parseNumber(c3, 100) / 100]),
+        alpha,
+        syntax,
+      };
+    case 'hwb':
+      return {
+        rgb: hwbToSrgb([parseHue(c1), parseNumber(c2, 100) / 100, parseNumber(c3, 100) / 100]),
+        alpha,
+        syntax,
+      };
+    case 'lab':
+      return { rgb: xyzToSrgb(labToXYZ([parseNumber(c1, 100), parseNumber(c2, 125), parseNumber(c3, 125)])), alpha, syntax };
+    case 'lch':
+      return {
+        rgb: xyzToSrgb(labToXYZ(polarToRectangular([parseNumber(c1, 100), parseNumber(c2, 150), parseHue(c3)]))),
+        alpha,
+        syntax,
+      };
+    case 'oklab':
+      return { rgb: xyzToSrgb(oklabToXYZ([parseNumber(c1, 1), parseNumber(c2, 0.4), parseNumber(c3, 0.4)])), alpha, syntax };
+    case 'oklch':
+      return {
+        rgb: xyzToSrgb(oklabToXYZ(polarToRectangular([parseNumber(c1, 1), parseNumber(c2, 0.4), parseHue(c3)]))),
+        alpha,
+        syntax,
+      };
+    default:
+      throw new Error(`Unsupported color function: ${name}()`);
+  }
+}
+
+/**
+ * Parse any CSS color to sRGB, gamut mapping colors sRGB can't display.
+ * Returns null if the text isn't a color.
+ */
+export function parseCssColor(text: string): ColorRGBA | null {
+  try {
+    const { rgb, alpha } = parseColorSyntax(text);
+    const [r, g, b] = gamutMap(rgb);
+    return { r, g, b, a: alpha };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a string is a CSS color function (rgb(), oklch(), color(), ...)
+ */
+export function isColorFunction(value: string): boolean {
+  return /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(/i.test(value.trim());
+}
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Format a color as hex (#rrggbb, or #rrggbbaa when translucent)
+ */
+export function formatHex(color: ColorRGBA, short: boolean = false): string {
+  const channels = [color.r, color.g, color.b, ...(color.a < 1 ? [color.a] : [])].map((v) =>
+    Math.round(v * 255).toString(16).padStart(2, '0')
+  );
+
+  // #rgb when every channel repeats its digit
+  if (short && channels.every((c) => c[0] === c[1])) {
+    return `#${channels.map((c) => c[0]).join('')}`;
+  }
+
+  return `#${channels.join('')}`;
+}
+
+/**
+ * Format color function arguments in modern or legacy syntax
+ */
+function formatFunction(name: string, components: string[], alpha: number, legacy: boolean): string {
+  if (legacy) {
+    return `${name}(${[...components, ...(alpha < 1 ? [String(round(alpha, 3))] : [])].join(', ')})`;
+  }
+  return `${name}(${components.join(' ')}${alpha < 1 ? ` / ${round(alpha, 3)}` : ''})`;
+}
+
+/**
+ * Format an sRGB color in the syntax of another color value ("oklch(...)", "hsl(...)", "rebeccapurple", ...),
+ * so edited colors are written back the way the token was written. Falls back to hex.
+ */
+export function formatColorLike(color: ColorRGBA, original: string): string {
+  let syntax: ColorSyntax;
+  try {
+    syntax = parseColorSyntax(original).syntax;
+  } catch {
+    return formatHex(color);
+  }
+
+  const rgb: Vector = [color.r, color.g, color.b];
+  const { a } = color;
+
+  switch (syntax.format) {
+    case 'named': {
+      if (a === 0) {
+        return 'transparent';
+      }
+      const hex = formatHex(color).slice(1);
+      const name = Object.keys(NAMED_COLORS).find((n) => NAMED_COLORS[n] === hex);
+      return name || formatHex(color);
+    }
+    case 'rgb':
+    case 'rgba':
+      return formatFunction(syntax.format, rgb.map((v) => String(Math.round(v * 255))), a, syntax.legacy);
+    case 'hsl':
+    case 'hsla': {
+      const [h, s, l] = srgbToHsl(rgb);
+      return formatFunction(syntax.format, [String(round(h, 2)), `${round(s * 100, 2)}%`, `${round(l * 100, 2)}%`], a, syntax.legacy);
+    }
+    case 'hwb': {
+      const [h] = srgbToHsl(rgb);
+      const w = Math.min(...rgb);
+      const b = 1 - Math.max(...rgb);
+      return formatFunction('hwb', [String(round(h, 2)), `${round(w * 100, 2)}%`, `${round(b * 100, 2)}%`], a, false);
+    }
+    case 'lab':
+    case 'lch': {
+      const lab = xyzToLab(srgbToXYZ(rgb));
+      const [l, c1, c2] = syntax.format === 'lch' ? rectangularToPolar(lab) : lab;
+      return formatFunction(syntax.format, [`${round(l, 2)}%`, String(round(c1, 2)), String(round(c2, 2))], a, false);
+    }
+    case 'oklab':
+    case 'oklch': {
+      const lab = xyzToOklab(srgbToXYZ(rgb));
+      const [l, c1, c2] = syntax.format === 'oklch' ? rectangularToPolar(lab) : lab;
+      return formatFunction(
+        syntax.format,
+        [`${round(l * 100, 2)}%`, String(round(c1, 4)), String(round(c2, syntax.format === 'oklch' ? 2 : 4))],
+        a,
+        false
+      );
+    }
+    case 'color': {
+      const coords = xyzToSpace(COLOR_SPACES[syntax.space!], srgbToXYZ(rgb));
+      return formatFunction('color', [syntax.space!, ...coords.map((v) => String(round(v, 4)))], a, false);
+    }
+    default:
+      return formatHex(color, syntax.shortHex);
+  }
+}
+
+/**
+ * A color modification, like Tokens Studio's lighten/darken/mix/alpha modifiers
+ */
+export interface ColorModification {
+  type: 'lighten' | 'darken' | 'mix' | 'alpha';
+  amount: number; // 0 - 1
+  space?: 'srgb' | 'hsl' | 'lch' | 'p3'; // Space the modification is made in (default srgb)
+  color?: ColorRGBA; // Color mixed in
+}
+
+// Conversions between sRGB and the spaces modifications are made in
+const MODIFICATION_SPACES: { [space: string]: { from: (rgb: Vector) => Vector; to: (coords: Vector) => Vector; hue?: number } } = {
+  srgb: { from: (rgb) => rgb, to: (coords) => coords },
+  hsl: { from: srgbToHsl, to: hslToSrgb, hue: 0 },
+  lch: {
+    from: (rgb) => rectangularToPolar(xyzToLab(srgbToXYZ(rgb))),
+    to: (lch) => xyzToSrgb(labToXYZ(polarToRectangular(lch))),
+    hue: 2,
+  },
+  p3: {
+    from: (rgb) => xyzToSpace(COLOR_SPACES['display-p3'], srgbToXYZ(rgb)),
+    to: (p3) => xyzToSrgb(spaceToXYZ(COLOR_SPACES['display-p3'], p3)),
+  },
+};
+
+/**
+ * Lighten, darken, mix or change the alpha of a color.
+ * Lightening moves lightness (or every channel) towards white by `amount`, darkening towards black;
+ * in LCH chroma is reduced by the same amount.
+ */
+export function modifyColor(color: ColorRGBA, modification: ColorModification): ColorRGBA {
+  const { type, amount } = modification;
+  if (type === 'alpha') {
+    return { ...color, a: Math.min(1, Math.max(0, amount)) };
+  }
+
+  const space = MODIFICATION_SPACES[modification.space || 'srgb'];
+  if (!space) {
+    throw new Error(`Unsupported color modifier space: ${modification.space}`);
+  }
+
+  let coords = space.from([color.r, color.g, color.b]);
+  let alpha = color.a;
+
+  if (type === 'mix') {
+    if (!modification.color) {
+      throw new Error('Mix modifier has no color to mix in');
+    }
+    const other = space.from([modification.color.r, modification.color.g, modification.color.b]);
+    coords = coords.map((v, i) => {
+      let target = other[i];
+      // Hues are interpolated along the shorter arc
+      if (i === space.hue && Math.abs(target - v) > 180) {
+        target += target > v ? -360 : 360;
+      }
+      return v + (target - v) * amount;
+    }) as Vector;
+    alpha = color.a + (modification.color.a - color.a) * amount;
+  } else {
+    const lighten = type === 'lighten';
+    const adjust = (v: number, max: number) => (lighten ? v + (max - v) * amount : v - v * amount);
+
+    if (modification.space === 'hsl') {
+      coords = [coords[0], coords[1], adjust(coords[2], 1)];
+    } else if (modification.space === 'lch') {
+      coords = [adjust(coords[0], 100), coords[1] - coords[1] * amount, coords[2]];
+    } else {
+      coords = coords.map((v) => adjust(v, 1)) as Vector;
+    }
+  }
+
+  const [r, g, b] = gamutMap(space.to(coords));
+  return { r, g, b, a: alpha };
+}
@@ -0,0 +1,121 @@
+/**
+ * Display names and addresses of the git hosts token repositories can live on
+ */
+
+import { GitProviderType, RepositoryConfig } from './types';
+
+export const GIT_PROVIDER_NAMES: { [provider in GitProviderType]: string } = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+  'azure-devops': 'Azure DevOps',
+};
+
+/**
+ * Get the display name of the host a configuration points at
+ */
+export function getProviderName(config?: RepositoryConfig): string {
+  return GIT_PROVIDER_NAMES[(config && config.provider) || 'github'];
+}
+
+/**
+ * Check that a configuration identifies a repository the way its host addresses them:
+ * GitLab by project ID or group and project, Azure DevOps by organization, project and repository.
+ * Returns what is missing, or null.
+ */
+export function getRepositoryConfigError(config: RepositoryConfig): string | null {
+  switch (config.provider) {
+    case 'gitlab':
+      return config.projectId || (config.owner && config.repo)
+        ? null
+        : 'GitLab project ID, or group and project name, are required.';
+    case 'azure-devops':
+      return config.owner && config.project && config.repo
+        ? null
+        : 'Azure DevOps organization, project and repository are required.';
+    default:
+      return config.owner && config.repo ? null : 'Repository owner and name are required.';
+  }
+}
+
+// What each host calls a request to merge a branch
+export const CHANGE_REQUEST_NAMES: { [provider in GitProviderType]: string } = {
+  github: 'Pull Request',
+  gitlab: 'Merge Request',
+  bitbucket: 'Pull Request',
+  'azure-devops': 'Pull Request',
+};
+
+/**
+ * Get what the host a configuration points at calls a change request
+ */
+export function getChangeRequestName(config?: RepositoryConfig): string {
+  return CHANGE_REQUEST_NAMES[(config && config.provider) || 'github'];
+}
+
+// github.com - Enterprise Server instances serve the same API under /api/v3 of their own host
+export const GITHUB_WEB_URL = 'https://github.com';
+export const GITHUB_API_URL = 'https://api.github.com';
+
+// Hosts whose repository URLs are never GitHub Enterprise Server instances
+const KNOWN_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org', 'dev.azure.com'];
+
+/**
+ * Get the web and API base URLs of a GitHub configuration, without trailing slashes
+ */
+export function getGitHubUrls(config?: Pick<RepositoryConfig, 'webBaseUrl' | 'apiBaseUrl'>): { webBaseUrl: string; apiBaseUrl: string } {
+  const webBaseUrl = ((config && config.webBaseUrl) || GITHUB_WEB_URL).replace(/\/+$/, '');
+  const apiBaseUrl = (config && config.apiBaseUrl)
+    ? config.apiBaseUrl.replace(/\/+$/, '')
+    : webBaseUrl === GITHUB_WEB_URL ? GITHUB_API_URL : `${webBaseUrl}/api/v3`;
+  return { webBaseUrl, apiBaseUrl };
+}
+
+/**
+ * Identify the repository a configuration points at, including its host, e.g.
+ * "github:github.example.com/owner/repo" or "gitlab:gitlab.com/1234"
+ */
+export function getRepositoryKey(config: RepositoryConfig): string {
+  switch (config.provider) {
+    case 'gitlab':
+      // Projects are addressed by ID when one is set
+      return `gitlab:gitlab.com/${config.projectId || `${config.owner}/${config.repo}`}`;
+    case 'bitbucket':
+      return `bitbucket:bitbucket.org/${config.owner}/${config.repo}`;
+    case 'azure-devops':
+      return `azure-devops:dev.azure.com/${config.owner}/${config.project}/${config.repo}`;
+    default:
+      return `github:${getGitHubUrls(config).webBaseUrl.replace(/^https?:\/\//, '')}/${config.owner}/${config.repo}`;
+  }
+}
+
+/**
+ * Parse a GitHub Enterprise Server repository URL ("https://github.example.com/owner/repo"
+ * or "git@github.example.com:owner/repo.git"), or undefined when it's on a known host
+ */
+export function parseGitHubEnterpriseUrl(url: string): {
+  owner: string;
+  repo: string;
+  webBaseUrl: string;
+  apiBaseUrl: string;
+} | undefined {
+  const match =
+    url.match(/^(https?:\/\/[^\/ ]+)\/([^\/ ]+)\/([^\/ ?#]+?)(?:\.git)?(?:[\/?#]|$)/) ||
+    url.match(/^[^@\/ ]+@([^: ]+):([^\/ ]+)\/([^\/ ]+?)(?:\.git)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  // SSH remotes only name the host: the web interface is served over HTTPS
+  const webBaseUrl = match[1].includes('://') ? match[1].toLowerCase() : `https://${match[1].toLowerCase()}`;
+  const host = webBaseUrl.replace(/^https?:\/\//, '').replace(/:\d+$/, '');
+  if (KNOWN_HOSTS.some((known) => host === known || host.endsWith(`.${known}`)) || host.endsWith('.visualstudio.com')) {
+    return undefined;
+  }
+
+  return {
+    owner: match[2],
+    repo: match[3],
+    ...getGitHubUrls({ webBaseUrl }),
+  };
+}
@@ -2,7 +2,8 @@
  * Multi-brand token processing utilities
  */
 
-import { StyleDictionaryTokens } from './types';
+import { StyleDictionaryTokens, TokenFormat } from './types';
+import { detectTokenFormat, normalizeTokens } from './token-format';
 
 /**
  * Robust JSON parser that can handle common JSON issues
@@ -151,6 +152,7 @@ export interface ProcessedTokenFile {
   tokens: StyleDictionaryTokens;
   brand?: string;
   category: 'base' | 'global' | 'brand';
+  format?: TokenFormat;
 }
 
 /**
@@ -265,6 +267,21 @@ export function getBrandNames(structure: MultiBrandStructure): string[] {
   return structure.brands.map(brand => brand.name);
 }
 
+/**
+ * Get the repository directory that holds a brand's token files
+ * e.g. "tokens/brands/acme" for "tokens/brands/acme/color.json"
+ */
+export function getBrandDirectory(brand: BrandInfo): string | null {
+  for (const file of brand.files) {
+    const index = file.indexOf(brand.path);
+    if (index !== -1) {
+      return file.substring(0, index + brand.path.length).replace(/^\/|\/$/g, '');
+    }
+  }
+
+  return null;
+}
+
 /**
  * Categorize token files based on multi-brand structure
  */
@@ -294,6 +311,12 @@ export function categorizeTokenFiles(
         continue;
       }
 
+      // Normalize DTCG ($value/$type) files to the internal Style Dictionary shape
+      const format = detectTokenFormat(tokens);
+      if (format === 'dtcg') {
+        console.log(`🧾 Detected DTCG format in ${file.path}`);
+      }
+
       // Determine category and brand
       let category: 'base' | 'global' | 'brand' = 'global';
       let brand: string | undefined;
@@ -316,9 +339,10 @@ export function categorizeTokenFiles(
       processedFiles.push({
         path: file.path,
         content: file.content,
-        tokens,
+        tokens: normalizeTokens(tokens, format),
         brand,
-        category
+        category,
+        format
       });
 
       console.log(`📦 Processed ${file.path} as ${category}${brand ? ` (brand: ${brand})` : ''}`);
@@ -0,0 +1,139 @@
+/**
+ * Three-way merge of token values
+ *
+ * "Ours" is Figma, "theirs" is the repository and "base" is the last-synced
+ * snapshot. Tokens changed on only one side are merged automatically, tokens
+ * changed on both sides to different values are conflicts.
+ */
+
+import { FlatTokenMap, SyncSnapshot, TokenConflict } from './types';
+
+export interface MergeResult {
+  ours: string[]; // Changed only in Figma
+  theirs: string[]; // Changed only in the repository
+  conflicts: TokenConflict[];
+}
+
+/**
+ * Get the flat token map key of a variable, optionally for a non-default mode
+ */
+export function getTokenKey(variablePath: string, mode?: string): string {
+  return mode ? `${variablePath}#${mode}` : variablePath;
+}
+
+/**
+ * Split a flat token map key into variable path and mode
+ */
+export function parseTokenKey(key: string): { variablePath: string; mode?: string } {
+  const index = key.lastIndexOf('#');
+  if (index === -1) {
+    return { variablePath: key };
+  }
+
+  return { variablePath: key.substring(0, index), mode: key.substring(index + 1) };
+}
+
+/**
+ * Compare two token values
+ */
+export function tokenValuesEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Classify every token path changed since the last sync
+ */
+export function threeWayMerge(base: FlatTokenMap, ours: FlatTokenMap, theirs: FlatTokenMap): MergeResult {
+  const result: MergeResult = { ours: [], theirs: [], conflicts: [] };
+  const keys = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]);
+
+  for (const key of keys) {
+    if (tokenValuesEqual(ours[key], theirs[key])) {
+      continue;
+    }
+
+    const oursChanged = !tokenValuesEqual(ours[key], base[key]);
+    const theirsChanged = !tokenValuesEqual(theirs[key], base[key]);
+
+    if (oursChanged && theirsChanged) {
+      result.conflicts.push({ key, base: base[key], ours: ours[key], theirs: theirs[key] });
+    } else if (oursChanged) {
+      result.ours.push(key);
+    } else {
+      result.theirs.push(key);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Compute the snapshot tokens after a sync.
+ * Tokens both sides agree on are recorded; all others keep their last-synced value
+ * so unpushed Figma changes and unresolved conflicts are still detected next time.
+ */
+export function updateSnapshotTokens(base: FlatTokenMap, ours: FlatTokenMap, theirs: FlatTokenMap): FlatTokenMap {
+  const tokens: FlatTokenMap = { ...base };
+  const keys = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)]);
+
+  for (const key of keys) {
+    if (!tokenValuesEqual(ours[key], theirs[key])) {
+      continue;
+    }
+
+    if (ours[key] === undefined) {
+      delete tokens[key];
+    } else {
+      tokens[key] = ours[key];
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Set the last-synced value of a token so the next merge treats one side as changed:
+ * recording the repository value makes Figma win, recording the Figma value makes the repository win.
+ */
+export function setSnapshotToken(tokens: FlatTokenMap, key: string, value: any): FlatTokenMap {
+  const updated = { ...tokens };
+  if (value === undefined) {
+    delete updated[key];
+  } else {
+    updated[key] = value;
+  }
+  return updated;
+}
+
+/**
+ * Move the tokens of renamed variables (every mode) to their new path
+ */
+export function renameTokenKeys(
+  tokens: FlatTokenMap,
+  renames: Array<{ from: string; to: string }>
+): FlatTokenMap {
+  const paths = new Map(renames.map((r) => [r.from, r.to]));
+  const renamed: FlatTokenMap = {};
+
+  for (const [key, value] of Object.entries(tokens)) {
+    const { variablePath, mode } = parseTokenKey(key);
+    renamed[getTokenKey(paths.get(variablePath) || variablePath, mode)] = value;
+  }
+
+  return renamed;
+}
+
+/**
+ * Get the stored snapshot if it was taken for the same repository and branch
+ */
+export function getSnapshotFor(
+  snapshot: SyncSnapshot | undefined,
+  repository: string,
+  branch: string
+): SyncSnapshot | null {
+  if (!snapshot || snapshot.repository !== repository || snapshot.branch !== branch) {
+    return null;
+  }
+
+  return snapshot;
+}
@@ -0,0 +1,302 @@
+/**
+ * Token format (dialect) detection and conversion
+ *
+ * Internally the plugin works with Style Dictionary v3 style tokens
+ * (`value`/`type`/`comment`). Files written in the W3C Design Tokens
+ * Community Group format (`$value`/`$type`/`$description`) are normalized
+ * to that shape on pull and converted back on push.
+ */
+
+import { StyleDictionaryTokens, StyleDictionaryToken, DTCGToken, TokenFormat } from './types';
+
+/**
+ * Check if an object is a token in any supported dialect
+ */
+export function isDesignToken(obj: any): obj is StyleDictionaryToken | DTCGToken {
+  return !!obj && typeof obj === 'object' && !Array.isArray(obj) && ('value' in obj || '$value' in obj);
+}
+
+/**
+ * Check if an object is a DTCG token (has a '$value' property)
+ */
+export function isDTCGToken(obj: any): obj is DTCGToken {
+  return !!obj && typeof obj === 'object' && !Array.isArray(obj) && '$value' in obj;
+}
+
+/**
+ * Detect the dialect of a token tree.
+ * A file is treated as DTCG as soon as one token uses `$value`.
+ */
+export function detectTokenFormat(tokens: any): TokenFormat {
+  if (!tokens || typeof tokens !== 'object') {
+    return 'style-dictionary';
+  }
+
+  for (const [key, value] of Object.entries(tokens)) {
+    if (key.startsWith('$') || !value || typeof value !== 'object') {
+      continue;
+    }
+
+    if (isDTCGToken(value)) {
+      return 'dtcg';
+    }
+
+    if ('value' in value) {
+      continue;
+    }
+
+    if (detectTokenFormat(value) === 'dtcg') {
+      return 'dtcg';
+    }
+  }
+
+  return 'style-dictionary';
+}
+
+/**
+ * Convert a DTCG token tree to the internal Style Dictionary shape.
+ * Group-level `$type` is inherited by every nested token that has no `$type` of its own.
+ */
+function dtcgToStyleDictionary(tokens: any, inheritedType?: string): StyleDictionaryTokens {
+  const result: StyleDictionaryTokens = {};
+  const groupType: string | undefined = typeof tokens.$type === 'string' ? tokens.$type : inheritedType;
+
+  for (const [key, value] of Object.entries(tokens)) {
+    // Group-level metadata ($type, $description, $extensions) is not a token
+    if (key.startsWith('$')) {
+      continue;
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      continue;
+    }
+
+    if (isDTCGToken(value)) {
+      const { $value, $type, $description, ...rest } = value;
+      const token: StyleDictionaryToken = {
+        ...rest,
+        value: $value,
+      };
+
+      const type = $type || groupType;
+      if (type) {
+        token.type = type;
+      }
+      if ($description) {
+        token.comment = $description;
+      }
+
+      result[key] = token;
+    } else {
+      result[key] = dtcgToStyleDictionary(value, groupType);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Normalize a token tree of any supported dialect to Style Dictionary shape
+ */
+export function normalizeTokens(
+  tokens: any,
+  format: TokenFormat = detectTokenFormat(tokens)
+): StyleDictionaryTokens {
+  if (format === 'dtcg') {
+    return dtcgToStyleDictionary(tokens);
+  }
+
+  return tokens as StyleDictionaryTokens;
+}
+
+/**
+ * Strip the Style Dictionary `.value` suffix from references
+ * ("{color.base.red.value}" -> "{color.base.red}") since DTCG references point at tokens
+ */
+function toDTCGReference(value: any): any {
+  if (typeof value === 'string') {
+    return value.replace(/\{([^}]+)\.value\}/g, '{$1}');
+  }
+  return value;
+}
+
+/**
+ * Convert a single Style Dictionary shaped token to the requested dialect
+ */
+export function convertTokenToFormat(token: StyleDictionaryToken, format: TokenFormat): any {
+  if (format !== 'dtcg') {
+    return token;
+  }
+
+  const { value: tokenValue, type, comment, description, ...rest } = token;
+  const result: any = {
+    $value: toDTCGReference(tokenValue),
+  };
+
+  if (type) {
+    result.$type = type;
+  }
+  if (comment || description) {
+    result.$description = comment || description;
+  }
+
+  return { ...result, ...rest };
+}
+
+/**
+ * Convert a Style Dictionary token tree to DTCG
+ */
+function styleDictionaryToDTCG(tokens: any): any {
+  const result: any = {};
+
+  for (const [key, value] of Object.entries(tokens)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      result[key] = value;
+      continue;
+    }
+
+    if (isDTCGToken(value)) {
+      // Already DTCG - keep as is
+      result[key] = value;
+    } else if ('value' in value) {
+      result[key] = convertTokenToFormat(value as StyleDictionaryToken, 'dtcg');
+    } else {
+      result[key] = styleDictionaryToDTCG(value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert an internal (Style Dictionary shaped) token tree to the requested dialect
+ */
+export function convertTokensToFormat(
+  tokens: StyleDictionaryTokens,
+  format: TokenFormat
+): any {
+  if (format === 'dtcg') {
+    return styleDictionaryToDTCG(tokens);
+  }
+
+  return tokens;
+}
+
+/**
+ * Count tokens in a tree of any supported dialect
+ */
+export function countTokens(tokens: any): number {
+  let count = 0;
+
+  for (const [key, value] of Object.entries(tokens || {})) {
+    if (key.startsWith('$') || !value || typeof value !== 'object') {
+      continue;
+    }
+
+    if (isDesignToken(value)) {
+      count++;
+    } else {
+      count += countTokens(value);
+    }
+  }
+
+  return count;
+}
+
+// `$extensions` namespace for data the plugin stores on tokens
+export const SYNC_EXTENSION = 'figma-token-sync';
+
+/**
+ * Get the data the plugin stored on a token, if any
+ */
+export function getTokenSyncExtension(token: any): { [key: string]: any } | undefined {
+  const extension = token?.$extensions?.[SYNC_EXTENSION];
+  return extension && typeof extension === 'object' ? extension : undefined;
+}
+
+/**
+ * Store data on a token, merged with what the plugin stored before
+ */
+export function setTokenSyncExtension<T extends { $extensions?: { [key: string]: any } }>(
+  token: T,
+  data: { [key: string]: any }
+): T {
+  const extensions = token.$extensions || {};
+  return {
+    ...token,
+    $extensions: {
+      ...extensions,
+      [SYNC_EXTENSION]: { ...extensions[SYNC_EXTENSION], ...data },
+    },
+  };
+}
+
+/**
+ * Get the id of the Figma variable a token was pushed from, if recorded
+ */
+export function getTokenVariableId(token: any): string | undefined {
+  const id = getTokenSyncExtension(token)?.variableId;
+  return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Record the id of the Figma variable a token is pushed from,
+ * so renaming the token in the repository can rename the variable instead of replacing it
+ */
+export function setTokenVariableId<T extends object>(token: T, variableId: string): T {
+  return setTokenSyncExtension(token, { variableId });
+}
+
+/**
+ * Check if a value is a CSS gradient ("linear-gradient(...)", "radial-gradient(...)", "conic-gradient(...)")
+ */
+export function isGradientString(value: any): boolean {
+  return typeof value === 'string' && /^(linear|radial|conic)-gradient\(/i.test(value.trim());
+}
+
+// Kinds of Figma styles composite tokens are imported as
+export type StyleTokenKind = 'text' | 'effect' | 'paint';
+
+/**
+ * Check if a value is a shadow layer ({ x, y, blur, ... } or DTCG { offsetX, offsetY, blur, ... })
+ */
+function isShadowLayer(value: any): boolean {
+  return !!value && typeof value === 'object' && ('blur' in value || 'offsetX' in value || ('x' in value && 'y' in value));
+}
+
+/**
+ * Check if a value is a DTCG gradient stop ({ color, position })
+ */
+export function isGradientStop(value: any): boolean {
+  return !!value && typeof value === 'object' && 'color' in value && 'position' in value;
+}
+
+/**
+ * Get the kind of Figma style a composite token is imported as,
+ * or null for tokens that are imported as variables
+ */
+export function getStyleTokenKind(token: { type?: string; value: any }): StyleTokenKind | null {
+  const type = token.type?.toLowerCase();
+  const value = token.value;
+  const isObject = !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (type === 'typography' || (isObject && ('fontFamily' in value || 'fontSize' in value))) {
+    return 'text';
+  }
+
+  // Shadows are single layers or arrays of layers
+  const isShadow = Array.isArray(value) ? value.length > 0 && value.every(isShadowLayer) : isShadowLayer(value);
+  if (type === 'shadow' || type === 'boxshadow' || isShadow) {
+    return 'effect';
+  }
+
+  // Gradients are CSS gradients, DTCG stop arrays or arrays of fills containing a gradient
+  const isGradient = isGradientString(value)
+    || (Array.isArray(value) && value.length > 0 && value.every(isGradientStop))
+    || (Array.isArray(value) && value.some(isGradientString));
+  if (type === 'gradient' || isGradient) {
+    return 'paint';
+  }
+
+  return null;
+}
@@ -0,0 +1,198 @@
+/**
+ * Token file validation
+ * Checks the structure of token files and that token values match their type,
+ * so malformed tokens are reported together before anything is imported
+ */
+
+import { ProcessedTokenFile, TokenFormat, TokenValidationError } from './types';
+import { isDesignToken } from './token-format';
+import { parseCssColor } from './colors';
+
+const DIMENSION_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?([a-z]+|%)?$/i;
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+// Group properties that aren't tokens or groups
+const GROUP_METADATA = ['comment', 'description'];
+
+const isNumeric = (value: any) => typeof value === 'number' || (typeof value === 'string' && NUMBER_PATTERN.test(value.trim()));
+const isDimension = (value: any) =>
+  typeof value === 'number' ||
+  (typeof value === 'string' && DIMENSION_PATTERN.test(value.trim())) ||
+  (!!value && typeof value === 'object' && typeof value.value === 'number' && typeof value.unit === 'string');
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// What values of each token type (lowercase) look like
+const TYPE_CHECKS: { [type: string]: { expected: string; check: (value: any) => boolean } } = {
+  color: {
+    expected: 'a color',
+    check: (v) => (typeof v === 'string' && !!parseCssColor(v)) || (isObject(v) && 'colorSpace' in v),
+  },
+  dimension: { expected: 'a dimension', check: isDimension },
+  spacing: { expected: 'a dimension', check: isDimension },
+  sizing: { expected: 'a dimension', check: isDimension },
+  size: { expected: 'a dimension', check: isDimension },
+  borderradius: { expected: 'a dimension', check: isDimension },
+  borderwidth: { expected: 'a dimension', check: isDimension },
+  fontsize: { expected: 'a dimension', check: isDimension },
+  fontsizes: { expected: 'a dimension', check: isDimension },
+  letterspacing: { expected: 'a dimension', check: isDimension },
+  paragraphspacing: { expected: 'a dimension', check: isDimension },
+  lineheight: { expected: 'a line height', check: (v) => isDimension(v) || v === 'normal' || v === 'auto' },
+  lineheights: { expected: 'a line height', check: (v) => isDimension(v) || v === 'normal' || v === 'auto' },
+  number: { expected: 'a number', check: isNumeric },
+  opacity: { expected: 'a number', check: (v) => isNumeric(v) || (typeof v === 'string' && DIMENSION_PATTERN.test(v) && v.endsWith('%')) },
+  fontweight: { expected: 'a font weight', check: (v) => typeof v === 'number' || typeof v === 'string' },
+  fontweights: { expected: 'a font weight', check: (v) => typeof v === 'number' || typeof v === 'string' },
+  fontfamily: {
+    expected: 'a font family',
+    check: (v) => typeof v === 'string' || (Array.isArray(v) && v.every((f) => typeof f === 'string')),
+  },
+  fontfamilies: {
+    expected: 'a font family',
+    check: (v) => typeof v === 'string' || (Array.isArray(v) && v.every((f) => typeof f === 'string')),
+  },
+  boolean: { expected: 'a boolean', check: (v) => typeof v === 'boolean' || v === 'true' || v === 'false' },
+  string: { expected: 'a string', check: (v) => typeof v === 'string' || typeof v === 'number' },
+  typography: { expected: 'a typography object', check: isObject },
+  shadow: { expected: 'a shadow', check: (v) => isObject(v) || Array.isArray(v) || typeof v === 'string' },
+  boxshadow: { expected: 'a shadow', check: (v) => isObject(v) || Array.isArray(v) || typeof v === 'string' },
+  gradient: { expected: 'a gradient', check: (v) => typeof v === 'string' || Array.isArray(v) || isObject(v) },
+};
+
+/**
+ * Escape a key for a JSON pointer (RFC 6901)
+ */
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Describe a value for an error message, shortened if long
+ */
+function describeValue(value: any): string {
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.substring(0, 37)}...` : text;
+}
+
+/**
+ * Check if a value is computed from references or math, which is validated when it's resolved
+ */
+function isComputedValue(value: any): boolean {
+  if (typeof value === 'string') {
+    return value.includes('{') || /^calc\(/i.test(value.trim()) || /\s[-+*/]\s/.test(value);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).some(isComputedValue);
+  }
+  return false;
+}
+
+/**
+ * Validate a single token: it has a value, and the value matches its type
+ */
+function validateToken(
+  token: any,
+  pointer: string,
+  format: TokenFormat,
+  inheritedType: string | undefined,
+  errors: Array<{ pointer: string; message: string }>
+): void {
+  const dtcg = format === 'dtcg';
+  if (dtcg && !('$value' in token)) {
+    errors.push({ pointer, message: 'Token uses "value" in a DTCG file, expected "$value"' });
+    return;
+  }
+
+  const valueKey = dtcg ? '$value' : 'value';
+  const value = token[valueKey];
+  const valuePointer = `${pointer}/${valueKey}`;
+
+  if (value === null || value === undefined) {
+    errors.push({ pointer: valuePointer, message: 'Token value is empty' });
+    return;
+  }
+
+  const type = dtcg ? token.$type || inheritedType : token.type;
+  if (type !== undefined && typeof type !== 'string') {
+    errors.push({ pointer: `${pointer}/${dtcg ? '$type' : 'type'}`, message: `Token type must be a string, got ${describeValue(type)}` });
+    return;
+  }
+
+  const rule = type ? TYPE_CHECKS[type.toLowerCase()] : undefined;
+  if (rule && !isComputedValue(value) && !rule.check(value)) {
+    errors.push({ pointer: valuePointer, message: `Expected ${rule.expected} for type "${type}", got ${describeValue(value)}` });
+  }
+}
+
+/**
+ * Validate the tokens and groups of a group
+ */
+function validateGroup(
+  group: any,
+  pointer: string,
+  format: TokenFormat,
+  inheritedType: string | undefined,
+  errors: Array<{ pointer: string; message: string }>
+): void {
+  const groupType = typeof group.$type === 'string' ? group.$type : inheritedType;
+  const entries = Object.entries(group).filter(([key]) => !key.startsWith('$'));
+  const hasChildren = entries.some(([, value]) => isObject(value));
+
+  for (const [key, value] of entries) {
+    const childPointer = `${pointer}/${escapePointer(key)}`;
+
+    if (isDesignToken(value)) {
+      validateToken(value, childPointer, format, groupType, errors);
+    } else if (isObject(value)) {
+      const properties = Object.keys(value as object).filter((k) => !k.startsWith('$'));
+      const childIsEmptyToken =
+        properties.length > 0 && properties.every((k) => !isObject((value as any)[k])) && 'type' in (value as object);
+
+      if (childIsEmptyToken) {
+        errors.push({ pointer: childPointer, message: `Token has no "${format === 'dtcg' ? '$value' : 'value'}"` });
+      } else {
+        validateGroup(value, childPointer, format, groupType, errors);
+      }
+    } else if (Array.isArray(value)) {
+      errors.push({ pointer: childPointer, message: 'Expected a token or group object, got an array' });
+    } else if (!(hasChildren && GROUP_METADATA.includes(key) && typeof value === 'string')) {
+      errors.push({ pointer: childPointer, message: `Expected a token or group object, got ${describeValue(value)}` });
+    }
+  }
+}
+
+/**
+ * Validate token files before they are imported: groups hold tokens and groups,
+ * every token has a value, and values match their type (Style Dictionary and DTCG).
+ * Errors point at the offending JSON with a JSON pointer ("/color/brand/primary/value").
+ */
+export function validateTokenFiles(files: ProcessedTokenFile[]): TokenValidationError[] {
+  const errors: TokenValidationError[] = [];
+
+  for (const file of files) {
+    // Validate the file as written so pointers match it; files that only parsed after recovery use the parsed tokens
+    let tokens: any;
+    let format: TokenFormat = file.format || 'style-dictionary';
+    try {
+      tokens = JSON.parse(file.content);
+    } catch {
+      tokens = file.tokens;
+      format = 'style-dictionary';
+    }
+
+    const fileErrors: Array<{ pointer: string; message: string }> = [];
+    if (!isObject(tokens)) {
+      fileErrors.push({ pointer: '', message: `Expected a JSON object, got ${Array.isArray(tokens) ? 'an array' : typeof tokens}` });
+    } else {
+      validateGroup(tokens, '', format, undefined, fileErrors);
+    }
+
+    errors.push(...fileErrors.map((e) => ({ file: file.path, ...e })));
+  }
+
+  if (errors.length > 0) {
+    console.warn(`⚠️ ${errors.length} invalid token(s)`);
+  }
+
+  return errors;
+}
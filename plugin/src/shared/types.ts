@@ -1,20 +1,56 @@
+// Git hosts token repositories can live on
+export type GitProviderType = 'github' | 'gitlab' | 'bitbucket' | 'azure-devops';
+
 // Plugin Settings
-export interface GitHubConfig {
-  // Authentication - either token or OAuth
-  token?: string; // Personal Access Token
+// Repository and sync configuration, tagged with the host the repository lives on
+export interface RepositoryConfig {
+  provider?: GitProviderType; // Host of the repository (default 'github')
+
+  // Authentication - either token or OAuth (GitHub only)
+  token?: string; // Personal Access Token, GitLab access token, Bitbucket app password or Azure DevOps PAT
   oauthToken?: string; // OAuth token from device flow
+  username?: string; // Bitbucket username the app password belongs to (without one, token is a Bitbucket access token)
 
   // Repository info - can be URL or owner/repo
   repoUrl?: string; // e.g., "https://github.com/rikisommers/design-tokens" or "rikisommers/design-tokens"
-  owner?: string; // Auto-extracted from repoUrl if not provided
+  owner?: string; // GitHub owner, GitLab group path, Bitbucket workspace or Azure DevOps organization
   repo?: string; // Auto-extracted from repoUrl if not provided
+  projectId?: string; // GitLab project ID, used instead of "owner/repo" when set (owner may include subgroups)
+  project?: string; // Azure DevOps project containing the repository
+  webBaseUrl?: string; // GitHub Enterprise Server web URL, e.g. "https://github.example.com" (default https://github.com)
+  apiBaseUrl?: string; // GitHub Enterprise Server API URL (default {webBaseUrl}/api/v3, or https://api.github.com)
 
   branch: string;
-  tokenPaths: string[];
+  tokenPaths: string[]; // File paths or glob patterns ("**", "*", "?", "{a,b}"); a leading "!" excludes matches
+  excludePaths?: string[]; // Glob patterns of files to leave out of token file discovery
   targetCollection?: string; // Collection to import tokens into
   targetMode?: string; // Mode to place tokens in (only used when modeStrategy is 'target')
   brandFolderPattern?: string; // Pattern for brand folders (e.g., "brands", "themes", "variants")
   modeStrategy?: 'auto' | 'target'; // 'auto' = create modes from brands, 'target' = use targetMode
+  tokenFormat?: TokenFormat; // Format written on push (pull detects the format of each file)
+  referenceStyle?: 'path' | 'value-suffix'; // Alias references written on push: {a.b} or {a.b.value}
+  fallbackTokenFile?: string; // File for new variables that weren't pulled from the repository
+  shadowTokenFile?: string; // File for new effect styles that weren't pulled from the repository
+  pruneMode?: 'off' | 'delete' | 'deprecate'; // What pull does with variables whose token was removed from the repository
+  codeSyntax?: CodeSyntaxConfig; // Dev Mode code syntax generated from token paths on pull
+  baseFontSize?: number; // Font size rem and em dimensions are converted to pixels with (default 16)
+  colorFormat?: 'hex' | 'original'; // How push writes colors: always hex, or in the syntax each token was pulled in
+  failOnUnresolvedReferences?: boolean; // Fail the pull instead of skipping tokens whose references don't resolve
+  reviewers?: string[]; // Requested on pull requests: GitHub logins, GitLab user IDs, Bitbucket account IDs or Azure DevOps identity IDs
+}
+
+// Naming transforms of generated code syntax, like Style Dictionary's name transforms
+export type NamingCase = 'kebab' | 'camel' | 'snake' | 'pascal';
+
+export interface CodeSyntaxNaming {
+  case: NamingCase;
+  prefix?: string; // Prepended to every name, like a Style Dictionary platform prefix
+}
+
+export interface CodeSyntaxConfig {
+  web?: CodeSyntaxNaming; // Written as var(--name)
+  android?: CodeSyntaxNaming;
+  ios?: CodeSyntaxNaming;
 }
 
 export interface LastSync {
@@ -24,26 +60,106 @@ export interface LastSync {
   message?: string;
 }
 
+export interface FileStructureEntry {
+  file: string; // File the token was pulled from
+  tokenPath: string[]; // Path of the token within the file
+  brandFiles?: { [brand: string]: string }; // Brand files that override the token
+}
+
 export interface FileStructureMapping {
-  [variablePath: string]: string; // Maps "collection/variable/path" to original file path
+  [variablePath: string]: FileStructureEntry; // Keyed by "Collection/variable/path"
+}
+
+export interface FlatTokenMap {
+  [tokenKey: string]: any; // Comparable value keyed by "Collection/variable/path" or "Collection/variable/path#Mode"
+}
+
+// Last state Figma and the repository agreed on - the base of three-way merges
+export interface SyncSnapshot {
+  repository: string; // Host and repository, see getRepositoryKey
+  branch: string;
+  commitSha: string; // Branch head the repository side was read at
+  timestamp: number;
+  tokens: FlatTokenMap;
+}
+
+// A token changed on both sides to different values since the last sync
+export interface TokenConflict {
+  key: string; // "Collection/variable/path" or "Collection/variable/path#Mode"
+  base: any; // undefined when the token didn't exist at the last sync
+  ours: any; // Figma value, undefined when the token was deleted in Figma
+  theirs: any; // Repository value, undefined when the token was deleted in the repository
+  type?: 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN'; // Figma variable type, when the variable exists
+}
+
+export interface ConflictResolution {
+  conflict: TokenConflict;
+  choice: 'figma' | 'repository' | 'edit';
+  value?: string; // Value for both sides when choice is 'edit'
+}
+
+// A change pull would make to a variable in one mode
+export interface PlannedVariableChange {
+  action: 'create' | 'update' | 'retype' | 'rename' | 'delete' | 'deprecate'; // Retyped variables are deleted and recreated
+  key: string; // "Collection/variable/path" or "Collection/variable/path#Mode"
+  oldKey?: string; // Previous "Collection/variable/path" of a renamed variable
+  oldValue?: any;
+  newValue?: any;
+  oldType?: string;
+  newType?: string;
+  usages?: { layers: number; styles: number }; // Layers and styles still bound to a pruned variable
+}
+
+// A token reference that doesn't resolve
+export interface UnresolvedReference {
+  file: string; // Token file the referencing token is in
+  tokenPath: string; // "color/semantic/error"
+  reference: string; // "color.base.red"
+  reason: 'missing' | 'circular';
+  cycle?: string[]; // Tokens of the cycle a circular reference is part of
+}
+
+// A malformed token or group in a token file
+export interface TokenValidationError {
+  file: string;
+  pointer: string; // JSON pointer to the offending value ("/color/brand/primary/value")
+  message: string;
+}
+
+// Everything a pull would change, computed without touching the document
+export interface PullPlan {
+  collectionsToCreate: string[];
+  modesToCreate: Array<{ collection: string; mode: string }>;
+  changes: PlannedVariableChange[];
+  keptInFigma: string[]; // Figma changes since the last sync that the pull keeps
+  conflicts: TokenConflict[];
 }
 
 export interface PluginSettings {
-  github?: GitHubConfig;
+  github?: RepositoryConfig; // Stored under "github" from before other hosts were supported
   lastSync?: LastSync;
-  fileStructure?: FileStructureMapping; // Store mapping for push operations
   modeMapping?: { [figmaModeName: string]: string }; // Maps Figma mode names to repository brand names
 }
 
+// State of the last sync of a document, stored in the document itself since settings are shared by every file
+export interface SyncState {
+  fileStructure?: FileStructureMapping; // Store mapping for push operations
+  styleStructure?: FileStructureMapping; // Source file of every style token, keyed by style name
+  snapshot?: SyncSnapshot; // Last-synced state, used to merge changes made on both sides
+  brandStructure?: MultiBrandStructure; // Brand folders discovered on the last pull, used to place mode overrides on push
+}
+
 // Message types for Plugin <-> UI communication
 export type PluginMessage =
   | { type: 'INIT' }
   | { type: 'SAVE_SETTINGS'; settings: PluginSettings }
-  | { type: 'TEST_CONNECTION'; config: GitHubConfig }
-  | { type: 'START_OAUTH_FLOW' }
-  | { type: 'POLL_OAUTH_TOKEN'; deviceCode: string; interval: number }
-  | { type: 'PULL_FROM_GITHUB'; config: GitHubConfig }
-  | { type: 'PUSH_TO_GITHUB'; config: GitHubConfig }
+  | { type: 'TEST_CONNECTION'; config: RepositoryConfig }
+  | { type: 'START_OAUTH_FLOW'; webBaseUrl?: string }
+  | { type: 'POLL_OAUTH_TOKEN'; deviceCode: string; interval: number; webBaseUrl?: string }
+  | { type: 'PULL_FROM_GITHUB'; config: RepositoryConfig }
+  | { type: 'PREVIEW_PULL'; config: RepositoryConfig }
+  | { type: 'PUSH_TO_GITHUB'; config: RepositoryConfig }
+  | { type: 'RESOLVE_CONFLICTS'; config: RepositoryConfig; resolutions: ConflictResolution[] }
   | { type: 'GET_COLLECTION_MODES'; collectionName: string }
   | { type: 'DIAGNOSTICS_MAPPING' };
 
@@ -56,19 +172,34 @@ export type UIMessage =
   | { type: 'OAUTH_ERROR'; message: string }
   | { type: 'SYNC_STARTED'; direction: 'pull' | 'push' }
   | { type: 'SYNC_PROGRESS'; message: string }
-  | { type: 'SYNC_COMPLETE'; success: boolean; message: string; prUrl?: string }
+  | { type: 'SYNC_COMPLETE'; success: boolean; message: string; prUrl?: string; unresolvedReferences?: UnresolvedReference[]; validationErrors?: TokenValidationError[] }
+  | { type: 'SYNC_CONFLICTS'; conflicts: TokenConflict[] }
+  | { type: 'PULL_PREVIEW'; plan: PullPlan }
   | { type: 'ERROR'; message: string }
   | { type: 'COLLECTION_MODES'; modes: Array<{modeId: string, name: string}> }
   | { type: 'DIAGNOSTICS_RESULT'; mapping: FileStructureMapping | null; collections: string[]; variables: Array<{name: string, collection: string}> };
 
 // Style Dictionary types
 export interface StyleDictionaryToken {
-  value: string | number | boolean;
+  value: string | number | boolean | { [property: string]: any } | any[]; // Composite tokens (typography, shadows, gradients) hold objects or arrays
   type?: string;
   comment?: string;
+  $extensions?: { [key: string]: any }; // Kept as in DTCG, e.g. the data the plugin stores on tokens
   [key: string]: any;
 }
 
+// W3C Design Tokens Community Group types
+export interface DTCGToken {
+  $value: any;
+  $type?: string;
+  $description?: string;
+  $extensions?: { [key: string]: any };
+  [key: string]: any;
+}
+
+// Supported token file dialects
+export type TokenFormat = 'style-dictionary' | 'dtcg';
+
 export interface StyleDictionaryTokens {
   [key: string]: StyleDictionaryToken | StyleDictionaryTokens;
 }
@@ -92,4 +223,5 @@ export interface ProcessedTokenFile {
   tokens: StyleDictionaryTokens;
   brand?: string;
   category: 'base' | 'global' | 'brand';
+  format?: TokenFormat; // Dialect detected on parse (tokens are normalized to Style Dictionary shape)
 }
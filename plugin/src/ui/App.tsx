@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { PluginSettings, UIMessage } from '../shared/types';
+import { PluginSettings, UIMessage, TokenConflict, PullPlan, UnresolvedReference, TokenValidationError } from '../shared/types';
 import { usePluginMessage } from './hooks/usePluginMessage';
 import ConfigPanel from './components/ConfigPanel';
 import SyncPanel from './components/SyncPanel';
+import ConflictPanel from './components/ConflictPanel';
+import PullPreviewPanel from './components/PullPreviewPanel';
+import ReferencePanel from './components/ReferencePanel';
+import ValidationPanel from './components/ValidationPanel';
 import StatusPanel from './components/StatusPanel';
 
 const App: React.FC = () => {
@@ -10,6 +14,10 @@ const App: React.FC = () => {
   const [status, setStatus] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<TokenConflict[]>([]);
+  const [pullPlan, setPullPlan] = useState<PullPlan | null>(null);
+  const [unresolvedReferences, setUnresolvedReferences] = useState<UnresolvedReference[]>([]);
+  const [validationErrors, setValidationErrors] = useState<TokenValidationError[]>([]);
 
   const handleMessage = useCallback((message: UIMessage) => {
     console.log('UI received message:', message.type);
@@ -41,6 +49,8 @@ const App: React.FC = () => {
 
       case 'SYNC_COMPLETE':
         setIsSyncing(false);
+        setUnresolvedReferences(message.unresolvedReferences || []);
+        setValidationErrors(message.validationErrors || []);
         if (message.success) {
           setStatus(message.prUrl ? `Success! PR: ${message.prUrl}` : message.message);
           // Update last sync
@@ -59,6 +69,14 @@ const App: React.FC = () => {
         }
         break;
 
+      case 'PULL_PREVIEW':
+        setPullPlan(message.plan);
+        break;
+
+      case 'SYNC_CONFLICTS':
+        setConflicts(message.conflicts);
+        break;
+
       case 'ERROR':
         setIsLoading(false);
         setIsSyncing(false);
@@ -98,14 +116,51 @@ const App: React.FC = () => {
       <SyncPanel
         settings={settings}
         onPull={(config) => {
+          setPullPlan(null);
           sendMessage({ type: 'PULL_FROM_GITHUB', config });
         }}
+        onPreviewPull={(config) => {
+          sendMessage({ type: 'PREVIEW_PULL', config });
+        }}
         onPush={(config) => {
           sendMessage({ type: 'PUSH_TO_GITHUB', config });
         }}
         isSyncing={isSyncing}
       />
 
+      {pullPlan && settings.github && (
+        <PullPreviewPanel
+          plan={pullPlan}
+          onApprove={() => {
+            setPullPlan(null);
+            sendMessage({ type: 'PULL_FROM_GITHUB', config: settings.github! });
+          }}
+          onCancel={() => setPullPlan(null)}
+          isSyncing={isSyncing}
+        />
+      )}
+
+      {conflicts.length > 0 && settings.github && (
+        <ConflictPanel
+          conflicts={conflicts}
+          config={settings.github}
+          onResolve={(resolutions) => {
+            setConflicts([]);
+            sendMessage({ type: 'RESOLVE_CONFLICTS', config: settings.github!, resolutions });
+          }}
+          onDismiss={() => setConflicts([])}
+          isSyncing={isSyncing}
+        />
+      )}
+
+      {validationErrors.length > 0 && (
+        <ValidationPanel errors={validationErrors} onDismiss={() => setValidationErrors([])} />
+      )}
+
+      {unresolvedReferences.length > 0 && (
+        <ReferencePanel references={unresolvedReferences} onDismiss={() => setUnresolvedReferences([])} />
+      )}
+
       <StatusPanel status={status} lastSync={settings.lastSync} />
     </div>
   );
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface ColorSwatchProps {
+  value: any;
+}
+
+const ColorSwatch: React.FC<ColorSwatchProps> = ({ value }) => {
+  // Aliases and deleted values have no colour to show
+  if (typeof value !== 'string' || !value.startsWith('#')) {
+    return null;
+  }
+
+  return (
+    <span
+      style={{
+        display: 'inline-block',
+        width: '10px',
+        height: '10px',
+        marginRight: '4px',
+        verticalAlign: 'middle',
+        background: value,
+        border: '1px solid var(--figma-color-border)',
+        borderRadius: '2px',
+      }}
+    />
+  );
+};
+
+export default ColorSwatch;
@@ -1,41 +1,91 @@
 import React, { useState, useEffect } from 'react';
-import { PluginSettings, GitHubConfig } from '../../shared/types';
+import {
+  PluginSettings,
+  RepositoryConfig,
+  GitProviderType,
+  TokenFormat,
+  CodeSyntaxConfig,
+  CodeSyntaxNaming,
+  NamingCase,
+} from '../../shared/types';
+import { GIT_PROVIDER_NAMES, getGitHubUrls, getRepositoryConfigError, parseGitHubEnterpriseUrl } from '../../shared/git-providers';
 import GitHubAuth from './GitHubAuth';
 
 interface ConfigPanelProps {
   settings: PluginSettings;
   onSave: (settings: PluginSettings) => void;
-  onTest: (config: GitHubConfig) => void;
+  onTest: (config: RepositoryConfig) => void;
   isLoading: boolean;
 }
 
 const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isLoading }) => {
+  const [provider, setProvider] = useState<GitProviderType>('github');
   const [authMethod, setAuthMethod] = useState<'token' | 'oauth'>('token');
   const [token, setToken] = useState('');
   const [oauthToken, setOauthToken] = useState('');
   const [repoUrl, setRepoUrl] = useState('');
   const [owner, setOwner] = useState('');
   const [repo, setRepo] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [project, setProject] = useState('');
+  const [webBaseUrl, setWebBaseUrl] = useState('');
+  const [apiBaseUrl, setApiBaseUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [reviewers, setReviewers] = useState('');
   const [branch, setBranch] = useState('main');
   const [tokenPaths, setTokenPaths] = useState('tokens/**/*.json');
+  const [excludePaths, setExcludePaths] = useState('');
+  const [fallbackTokenFile, setFallbackTokenFile] = useState('');
+  const [shadowTokenFile, setShadowTokenFile] = useState('');
+  const [pruneMode, setPruneMode] = useState<'off' | 'delete' | 'deprecate'>('off');
+  const [failOnUnresolvedReferences, setFailOnUnresolvedReferences] = useState(false);
   const [targetCollection, setTargetCollection] = useState('Allied Telesis');
   const [targetMode, setTargetMode] = useState('');
   const [modeStrategy, setModeStrategy] = useState<'auto' | 'target'>('auto');
+  const [tokenFormat, setTokenFormat] = useState<TokenFormat>('style-dictionary');
+  const [referenceStyle, setReferenceStyle] = useState<'path' | 'value-suffix'>('path');
+  const [codeSyntax, setCodeSyntax] = useState<CodeSyntaxConfig>({});
+  const [baseFontSize, setBaseFontSize] = useState('');
+  const [colorFormat, setColorFormat] = useState<'hex' | 'original'>('hex');
+  const [modeMapping, setModeMapping] = useState('');
   const [availableModes, setAvailableModes] = useState<Array<{modeId: string, name: string}>>([]);
   const [isLoadingModes, setIsLoadingModes] = useState(false);
 
   useEffect(() => {
     if (settings.github) {
+      setProvider(settings.github.provider || 'github');
       setToken(settings.github.token || '');
       setOauthToken(settings.github.oauthToken || '');
       setRepoUrl(settings.github.repoUrl || '');
       setOwner(settings.github.owner || '');
       setRepo(settings.github.repo || '');
+      setProjectId(settings.github.projectId || '');
+      setProject(settings.github.project || '');
+      setWebBaseUrl(settings.github.webBaseUrl || '');
+      setApiBaseUrl(settings.github.apiBaseUrl || '');
+      setUsername(settings.github.username || '');
+      setReviewers(settings.github.reviewers?.join(', ') || '');
       setBranch(settings.github.branch || 'main');
       setTokenPaths(settings.github.tokenPaths?.join(', ') || 'tokens/**/*.json');
+      setExcludePaths(settings.github.excludePaths?.join(', ') || '');
+      setFallbackTokenFile(settings.github.fallbackTokenFile || '');
+      setShadowTokenFile(settings.github.shadowTokenFile || '');
+      setPruneMode(settings.github.pruneMode || 'off');
+      setFailOnUnresolvedReferences(settings.github.failOnUnresolvedReferences || false);
       setTargetCollection(settings.github.targetCollection || 'Allied Telesis');
       setTargetMode(settings.github.targetMode || '');
       setModeStrategy(settings.github.modeStrategy || 'auto');
+      setTokenFormat(settings.github.tokenFormat || 'style-dictionary');
+      setReferenceStyle(settings.github.referenceStyle || 'path');
+      setCodeSyntax(settings.github.codeSyntax || {});
+      setBaseFontSize(settings.github.baseFontSize ? String(settings.github.baseFontSize) : '');
+      setColorFormat(settings.github.colorFormat || 'hex');
+
+      setModeMapping(
+        Object.entries(settings.modeMapping || {})
+          .map(([figmaMode, brand]) => `${figmaMode} = ${brand}`)
+          .join('\n')
+      );
 
       // Determine auth method based on what's available
       if (settings.github.oauthToken) {
@@ -90,7 +140,14 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
     }
   }, [targetCollection]);
 
-  const parseRepoUrl = (url: string) => {
+  const parseRepoUrl = (url: string): {
+    owner: string;
+    repo: string;
+    project?: string;
+    provider?: GitProviderType;
+    webBaseUrl?: string;
+    apiBaseUrl?: string;
+  } => {
     if (!url || typeof url !== 'string') {
       console.warn('⚠️  Invalid URL provided to parseRepoUrl:', url);
       return { owner: '', repo: '' };
@@ -98,36 +155,155 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
 
     const match = url.match(/github\.com[\/:]([^\/ ]+)\/([^\/ ]+)/);
     if (match) {
-      return { owner: match[1], repo: match[2].replace(/\.git$/, '') };
+      return { owner: match[1], repo: match[2].replace(/\.git$/, ''), provider: 'github' };
+    }
+
+    // GitLab projects can be nested in subgroups: the owner is the whole group path
+    const gitlabMatch = url.match(/gitlab\.com[\/:]([^ ]+)\/([^\/ ]+?)(?:\.git)?\/?$/);
+    if (gitlabMatch) {
+      return { owner: gitlabMatch[1], repo: gitlabMatch[2], provider: 'gitlab' };
+    }
+
+    const bitbucketMatch = url.match(/bitbucket\.org[\/:]([^\/ ]+)\/([^\/ ]+?)(?:\.git)?(?:[\/?#]|$)/);
+    if (bitbucketMatch) {
+      return { owner: bitbucketMatch[1], repo: bitbucketMatch[2], provider: 'bitbucket' };
+    }
+
+    // Azure DevOps: dev.azure.com/{organization}/{project}/_git/{repo} or {organization}.visualstudio.com/{project}/_git/{repo}
+    const azureMatch =
+      url.match(/dev\.azure\.com\/([^\/ ]+)\/([^\/ ]+)\/_git\/([^\/ ?#]+)/) ||
+      url.match(/([^\/.@ ]+)\.visualstudio\.com\/(?:DefaultCollection\/)?([^\/ ]+)\/_git\/([^\/ ?#]+)/);
+    if (azureMatch) {
+      return {
+        owner: decodeURIComponent(azureMatch[1]),
+        project: decodeURIComponent(azureMatch[2]),
+        repo: decodeURIComponent(azureMatch[3]),
+        provider: 'azure-devops',
+      };
+    }
+
+    // Full URLs on any other host are GitHub Enterprise Server repositories
+    const enterprise = parseGitHubEnterpriseUrl(url);
+    if (enterprise) {
+      return { ...enterprise, provider: 'github' };
     }
     return { owner: '', repo: '' };
   };
 
+  // Update the naming of one code syntax platform; clearing the case turns the platform off
+  const updateCodeSyntax = (platform: keyof CodeSyntaxConfig, naming: Partial<CodeSyntaxNaming> | null) => {
+    const next = { ...codeSyntax };
+    const current = codeSyntax[platform];
+    if (naming && (naming.case || current)) {
+      next[platform] = { case: 'kebab', ...current, ...naming };
+    } else {
+      delete next[platform];
+    }
+    setCodeSyntax(next);
+  };
+
+  // Parse a comma-separated list, or undefined when it's empty
+  const parseList = (text: string) => {
+    const items = text.split(',').map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  };
+
+  // Parse comma- or newline-separated glob patterns, or undefined when there are none
+  // Commas inside braces ("{a,b}") belong to the pattern
+  const parsePatternList = (text: string) => {
+    const patterns: string[] = [];
+    let current = '';
+    let braceDepth = 0;
+    for (const char of text) {
+      if ((char === ',' && braceDepth === 0) || char === '\n') {
+        patterns.push(current.trim());
+        current = '';
+        continue;
+      }
+      if (char === '{') {
+        braceDepth++;
+      } else if (char === '}' && braceDepth > 0) {
+        braceDepth--;
+      }
+      current += char;
+    }
+    patterns.push(current.trim());
+    const items = patterns.filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  };
+
+  // Parse "Figma Mode = brand" lines into a mode mapping
+  const parseModeMapping = (text: string) => {
+    const mapping: { [figmaModeName: string]: string } = {};
+    for (const line of text.split('\n')) {
+      const [figmaMode, brand] = line.split('=').map((part) => part.trim());
+      if (figmaMode && brand) {
+        mapping[figmaMode] = brand;
+      }
+    }
+    return Object.keys(mapping).length > 0 ? mapping : undefined;
+  };
+
   const handleRepoUrlChange = (url: string) => {
     setRepoUrl(url);
     if (url) {
-      const { owner: parsedOwner, repo: parsedRepo } = parseRepoUrl(url);
-      setOwner(parsedOwner);
-      setRepo(parsedRepo);
+      const parsed = parseRepoUrl(url);
+      setOwner(parsed.owner);
+      setRepo(parsed.repo);
+      if (parsed.provider) {
+        setProvider(parsed.provider);
+      }
+      if (parsed.project) {
+        setProject(parsed.project);
+      }
+      if (parsed.provider === 'github') {
+        setWebBaseUrl(parsed.webBaseUrl || '');
+        setApiBaseUrl(parsed.apiBaseUrl || '');
+      }
     }
   };
 
+  // OAuth is only available for GitHub
+  const useOAuth = provider === 'github' && authMethod === 'oauth';
+  const providerName = GIT_PROVIDER_NAMES[provider];
+  const fields = PROVIDER_FIELDS[provider];
+  const isEnterprise = provider === 'github' && !!webBaseUrl;
+  const tokenUrl = isEnterprise ? `${getGitHubUrls({ webBaseUrl }).webBaseUrl}/settings/tokens` : fields.tokenUrl;
+
   const handleSave = () => {
-    const config: GitHubConfig = {
-      ...(authMethod === 'oauth' ? { oauthToken } : { token }),
+    const config: RepositoryConfig = {
+      provider,
+      ...(useOAuth ? { oauthToken } : { token }),
       repoUrl: repoUrl || undefined,
       owner: owner || undefined,
       repo: repo || undefined,
+      projectId: provider === 'gitlab' ? projectId.trim() || undefined : undefined,
+      project: provider === 'azure-devops' ? project.trim() || undefined : undefined,
+      webBaseUrl: isEnterprise ? webBaseUrl.trim() : undefined,
+      apiBaseUrl: isEnterprise ? apiBaseUrl.trim() || undefined : undefined,
+      username: provider === 'bitbucket' ? username.trim() || undefined : undefined,
+      reviewers: parseList(reviewers),
       branch,
-      tokenPaths: tokenPaths.split(',').map((p) => p.trim()).filter(Boolean),
+      tokenPaths: parsePatternList(tokenPaths) || [],
+      excludePaths: parsePatternList(excludePaths),
+      fallbackTokenFile: fallbackTokenFile.trim() || undefined,
+      shadowTokenFile: shadowTokenFile.trim() || undefined,
+      pruneMode,
+      failOnUnresolvedReferences: failOnUnresolvedReferences || undefined,
       targetCollection: targetCollection.trim() || undefined,
       targetMode: targetMode.trim() || undefined,
       modeStrategy,
+      tokenFormat,
+      referenceStyle,
+      codeSyntax: Object.keys(codeSyntax).length > 0 ? codeSyntax : undefined,
+      baseFontSize: Number(baseFontSize) > 0 ? Number(baseFontSize) : undefined,
+      colorFormat,
     };
 
     onSave({
       ...settings,
       github: config,
+      modeMapping: parseModeMapping(modeMapping),
     });
   };
 
@@ -146,16 +322,33 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
       isLoading
     });
 
-    const config: GitHubConfig = {
-      ...(authMethod === 'oauth' ? { oauthToken } : { token }),
+    const config: RepositoryConfig = {
+      provider,
+      ...(useOAuth ? { oauthToken } : { token }),
       repoUrl: repoUrl || undefined,
       owner: owner || undefined,
       repo: repo || undefined,
+      projectId: provider === 'gitlab' ? projectId.trim() || undefined : undefined,
+      project: provider === 'azure-devops' ? project.trim() || undefined : undefined,
+      webBaseUrl: isEnterprise ? webBaseUrl.trim() : undefined,
+      apiBaseUrl: isEnterprise ? apiBaseUrl.trim() || undefined : undefined,
+      username: provider === 'bitbucket' ? username.trim() || undefined : undefined,
+      reviewers: parseList(reviewers),
       branch,
-      tokenPaths: tokenPaths.split(',').map((p) => p.trim()).filter(Boolean),
+      tokenPaths: parsePatternList(tokenPaths) || [],
+      excludePaths: parsePatternList(excludePaths),
+      fallbackTokenFile: fallbackTokenFile.trim() || undefined,
+      shadowTokenFile: shadowTokenFile.trim() || undefined,
+      pruneMode,
+      failOnUnresolvedReferences: failOnUnresolvedReferences || undefined,
       targetCollection: targetCollection.trim() || undefined,
       targetMode: targetMode.trim() || undefined,
       modeStrategy,
+      tokenFormat,
+      referenceStyle,
+      codeSyntax: Object.keys(codeSyntax).length > 0 ? codeSyntax : undefined,
+      baseFontSize: Number(baseFontSize) > 0 ? Number(baseFontSize) : undefined,
+      colorFormat,
     };
     console.log('🔘 Test config created:', config);
     console.log('🔘 Config valid?', isConfigValid);
@@ -165,8 +358,16 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
     console.log('🔘 onTest called');
   };
 
-  const hasAuth = authMethod === 'oauth' ? !!oauthToken : !!token;
-  const hasRepo = !!(owner && repo);
+  const hasAuth = useOAuth ? !!oauthToken : !!token;
+  const hasRepo = !getRepositoryConfigError({
+    provider,
+    owner,
+    repo,
+    projectId: projectId.trim(),
+    project: project.trim(),
+    branch,
+    tokenPaths: [],
+  });
   const hasBranch = !!branch;
   const hasTokenPaths = !!tokenPaths;
 
@@ -175,7 +376,7 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
   console.log('🔍 Validation check:', {
     authMethod,
     hasAuth,
-    hasRepo: { owner, repo, hasRepo },
+    hasRepo: { owner, repo, projectId, hasRepo },
     hasBranch: { branch, hasBranch },
     hasTokenPaths: { tokenPaths, hasTokenPaths },
     isConfigValid,
@@ -184,33 +385,48 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-      <h3 style={{ margin: 0, fontSize: '12px', fontWeight: 600 }}>GitHub Configuration</h3>
+      <h3 style={{ margin: 0, fontSize: '12px', fontWeight: 600 }}>{providerName} Configuration</h3>
 
-      {/* Authentication Method Toggle */}
       <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
-        <label style={{ fontSize: '11px', fontWeight: 500 }}>Authentication Method</label>
-        <div style={{ display: 'flex', gap: '8px' }}>
-          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px' }}>
-            <input
-              type="radio"
-              checked={authMethod === 'oauth'}
-              onChange={() => setAuthMethod('oauth')}
-            />
-            OAuth (Recommended)
-          </label>
-          <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px' }}>
-            <input
-              type="radio"
-              checked={authMethod === 'token'}
-              onChange={() => setAuthMethod('token')}
-            />
-            Personal Access Token
-          </label>
-        </div>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Provider</label>
+        <select
+          value={provider}
+          onChange={(e) => setProvider(e.target.value as GitProviderType)}
+          style={inputStyle}
+        >
+          {(Object.keys(GIT_PROVIDER_NAMES) as GitProviderType[]).map((type) => (
+            <option key={type} value={type}>{GIT_PROVIDER_NAMES[type]}</option>
+          ))}
+        </select>
       </div>
 
+      {/* Authentication Method Toggle */}
+      {provider === 'github' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          <label style={{ fontSize: '11px', fontWeight: 500 }}>Authentication Method</label>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px' }}>
+              <input
+                type="radio"
+                checked={authMethod === 'oauth'}
+                onChange={() => setAuthMethod('oauth')}
+              />
+              OAuth (Recommended)
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px' }}>
+              <input
+                type="radio"
+                checked={authMethod === 'token'}
+                onChange={() => setAuthMethod('token')}
+              />
+              Personal Access Token
+            </label>
+          </div>
+        </div>
+      )}
+
       {/* Authentication Section */}
-      {authMethod === 'oauth' ? (
+      {useOAuth ? (
         oauthToken ? (
           <div style={{ padding: '8px', background: 'var(--figma-color-bg-success)', borderRadius: '4px' }}>
             <span style={{ fontSize: '11px', color: 'var(--figma-color-text-success)' }}>✓ Authenticated with GitHub</span>
@@ -234,20 +450,36 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
           <GitHubAuth
             onTokenReceived={setOauthToken}
             isLoading={isLoading}
+            webBaseUrl={isEnterprise ? getGitHubUrls({ webBaseUrl }).webBaseUrl : undefined}
           />
         )
       ) : (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
-          <label style={{ fontSize: '11px', fontWeight: 500 }}>Personal Access Token</label>
+          {provider === 'bitbucket' && (
+            <>
+              <label style={{ fontSize: '11px', fontWeight: 500 }}>Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="bitbucket-username"
+                style={inputStyle}
+              />
+              <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+                Leave empty when using a repository or workspace access token.
+              </span>
+            </>
+          )}
+          <label style={{ fontSize: '11px', fontWeight: 500 }}>{fields.tokenLabel}</label>
           <input
             type="password"
             value={token}
             onChange={(e) => setToken(e.target.value)}
-            placeholder="ghp_xxxxxxxxxxxx"
+            placeholder={fields.tokenPlaceholder}
             style={inputStyle}
           />
           <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
-            Requires 'repo' scope. <a href="https://github.com/settings/tokens" target="_blank" style={{ color: 'var(--figma-color-text-brand)' }}>Generate token</a>
+            {fields.tokenHelp} <a href={tokenUrl} target="_blank" style={{ color: 'var(--figma-color-text-brand)' }}>Generate token</a>
           </span>
         </div>
       )}
@@ -259,19 +491,45 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
           type="text"
           value={repoUrl}
           onChange={(e) => handleRepoUrlChange(e.target.value)}
-          placeholder="https://github.com/owner/repo or owner/repo"
+          placeholder={fields.repoUrlPlaceholder}
           style={inputStyle}
         />
         <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
-          GitHub repository URL or owner/repo format
+          {fields.repoUrlHelp}
         </span>
       </div>
 
+      {/* GitHub Enterprise Server (detected from repository URLs on other hosts) */}
+      {isEnterprise && (
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            <label style={{ fontSize: '11px', fontWeight: 500, color: 'var(--figma-color-text-secondary)' }}>Server URL</label>
+            <input
+              type="text"
+              value={webBaseUrl}
+              onChange={(e) => setWebBaseUrl(e.target.value)}
+              placeholder="https://github.example.com"
+              style={{ ...inputStyle, background: 'var(--figma-color-bg-secondary)' }}
+            />
+          </div>
+          <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            <label style={{ fontSize: '11px', fontWeight: 500, color: 'var(--figma-color-text-secondary)' }}>API URL</label>
+            <input
+              type="text"
+              value={apiBaseUrl}
+              onChange={(e) => setApiBaseUrl(e.target.value)}
+              placeholder={getGitHubUrls({ webBaseUrl }).apiBaseUrl}
+              style={{ ...inputStyle, background: 'var(--figma-color-bg-secondary)' }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Auto-filled Owner/Repo (read-only display) */}
       {(owner || repo) && (
         <div style={{ display: 'flex', gap: '8px' }}>
           <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '4px' }}>
-            <label style={{ fontSize: '11px', fontWeight: 500, color: 'var(--figma-color-text-secondary)' }}>Owner</label>
+            <label style={{ fontSize: '11px', fontWeight: 500, color: 'var(--figma-color-text-secondary)' }}>{fields.ownerLabel}</label>
             <input
               type="text"
               value={owner}
@@ -281,7 +539,7 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
             />
           </div>
           <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '4px' }}>
-            <label style={{ fontSize: '11px', fontWeight: 500, color: 'var(--figma-color-text-secondary)' }}>Repository</label>
+            <label style={{ fontSize: '11px', fontWeight: 500, color: 'var(--figma-color-text-secondary)' }}>{fields.repoLabel}</label>
             <input
               type="text"
               value={repo}
@@ -293,6 +551,38 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
         </div>
       )}
 
+      {provider === 'gitlab' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          <label style={{ fontSize: '11px', fontWeight: 500 }}>Project ID</label>
+          <input
+            type="text"
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            placeholder="12345678"
+            style={inputStyle}
+          />
+          <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+            Optional. Used instead of the group/project path, which changes when the project is moved or renamed.
+          </span>
+        </div>
+      )}
+
+      {provider === 'azure-devops' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          <label style={{ fontSize: '11px', fontWeight: 500 }}>Project</label>
+          <input
+            type="text"
+            value={project}
+            onChange={(e) => setProject(e.target.value)}
+            placeholder="Design System"
+            style={inputStyle}
+          />
+          <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+            Azure DevOps project containing the repository
+          </span>
+        </div>
+      )}
+
       <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
         <label style={{ fontSize: '11px', fontWeight: 500 }}>Branch</label>
         <input
@@ -304,6 +594,20 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
         />
       </div>
 
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Reviewers</label>
+        <input
+          type="text"
+          value={reviewers}
+          onChange={(e) => setReviewers(e.target.value)}
+          placeholder={fields.reviewersPlaceholder}
+          style={inputStyle}
+        />
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          Comma-separated {fields.reviewersHelp}, requested on every {provider === 'gitlab' ? 'merge' : 'pull'} request
+        </span>
+      </div>
+
       <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
         <label style={{ fontSize: '11px', fontWeight: 500 }}>Token File Paths</label>
         <textarea
@@ -318,7 +622,179 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
           }}
         />
         <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
-          Comma-separated paths or glob patterns (e.g., tokens/*.json)
+          Comma-separated paths or glob patterns (e.g., tokens/**/*.json, tokens/{'{'}color,size{'}'}.json). Prefix a pattern with ! to exclude it
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Exclude Paths</label>
+        <input
+          type="text"
+          value={excludePaths}
+          onChange={(e) => setExcludePaths(e.target.value)}
+          placeholder="tokens/**/deprecated/**, tokens/$metadata.json"
+          style={{ ...inputStyle, fontFamily: 'monospace' }}
+        />
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          Comma-separated glob patterns of files to skip, even when a token path matches them
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Fallback Token File</label>
+        <input
+          type="text"
+          value={fallbackTokenFile}
+          onChange={(e) => setFallbackTokenFile(e.target.value)}
+          placeholder="tokens/figma.json"
+          style={inputStyle}
+        />
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          Where variables created in Figma are written on push. Pulled variables go back to their original file.
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Shadow Token File</label>
+        <input
+          type="text"
+          value={shadowTokenFile}
+          onChange={(e) => setShadowTokenFile(e.target.value)}
+          placeholder="tokens/shadows.json"
+          style={inputStyle}
+        />
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          Where effect styles created in Figma are written on push as shadow tokens. Pulled styles go back to their original file.
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Removed Tokens</label>
+        <select
+          value={pruneMode}
+          onChange={(e) => setPruneMode(e.target.value as 'off' | 'delete' | 'deprecate')}
+          style={inputStyle}
+        >
+          <option value="off">Keep variables</option>
+          <option value="delete">Delete variables</option>
+          <option value="deprecate">Move variables to _deprecated/</option>
+        </select>
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          What pull does with variables whose token was removed from the repository
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Unresolved References</label>
+        <select
+          value={failOnUnresolvedReferences ? 'fail' : 'skip'}
+          onChange={(e) => setFailOnUnresolvedReferences(e.target.value === 'fail')}
+          style={inputStyle}
+        >
+          <option value="skip">Skip their tokens</option>
+          <option value="fail">Fail the pull</option>
+        </select>
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          What pull does when a token references a token that doesn't exist, or references form a cycle
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Token Format</label>
+        <select
+          value={tokenFormat}
+          onChange={(e) => setTokenFormat(e.target.value as TokenFormat)}
+          style={inputStyle}
+        >
+          <option value="style-dictionary">Style Dictionary (value/type)</option>
+          <option value="dtcg">W3C Design Tokens ($value/$type)</option>
+        </select>
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          Format written on push. Pull detects the format of each file automatically.
+        </span>
+      </div>
+
+      {tokenFormat === 'style-dictionary' && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          <label style={{ fontSize: '11px', fontWeight: 500 }}>Reference Style</label>
+          <select
+            value={referenceStyle}
+            onChange={(e) => setReferenceStyle(e.target.value as 'path' | 'value-suffix')}
+            style={inputStyle}
+          >
+            <option value="path">{'{color.base.red}'}</option>
+            <option value="value-suffix">{'{color.base.red.value}'}</option>
+          </select>
+          <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+            How aliased variables are written as token references on push
+          </span>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Color Format</label>
+        <select
+          value={colorFormat}
+          onChange={(e) => setColorFormat(e.target.value as 'hex' | 'original')}
+          style={inputStyle}
+        >
+          <option value="hex">Hex</option>
+          <option value="original">Original syntax</option>
+        </select>
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          How colors are written on push. Original syntax keeps rgb(), hsl(), oklch(), color() and named colors as they were pulled.
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Base Font Size</label>
+        <input
+          type="number"
+          min="1"
+          value={baseFontSize}
+          onChange={(e) => setBaseFontSize(e.target.value)}
+          placeholder="16"
+          style={inputStyle}
+        />
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          Pixels per rem/em. Pull converts rem and em dimensions to pixels, push writes them back in their original unit.
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Code Syntax</label>
+        {([
+          ['web', 'Web'],
+          ['android', 'Android'],
+          ['ios', 'iOS'],
+        ] as Array<[keyof CodeSyntaxConfig, string]>).map(([platform, label]) => (
+          <div key={platform} style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+            <span style={{ fontSize: '11px', width: '48px' }}>{label}</span>
+            <select
+              value={codeSyntax[platform]?.case || ''}
+              onChange={(e) =>
+                updateCodeSyntax(platform, e.target.value ? { case: e.target.value as NamingCase } : null)
+              }
+              style={{ ...inputStyle, flex: 1 }}
+            >
+              <option value="">Off</option>
+              <option value="kebab">kebab-case</option>
+              <option value="camel">camelCase</option>
+              <option value="snake">snake_case</option>
+              <option value="pascal">PascalCase</option>
+            </select>
+            <input
+              type="text"
+              value={codeSyntax[platform]?.prefix || ''}
+              onChange={(e) => updateCodeSyntax(platform, { prefix: e.target.value || undefined })}
+              disabled={!codeSyntax[platform]}
+              placeholder="Prefix"
+              style={{ ...inputStyle, flex: 1 }}
+            />
+          </div>
+        ))}
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          Dev Mode names generated from token paths on pull, e.g. var(--ds-color-brand-primary) for kebab-case with prefix "ds"
         </span>
       </div>
 
@@ -384,6 +860,24 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
         </div>
       )}
 
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ fontSize: '11px', fontWeight: 500 }}>Mode Mapping</label>
+        <textarea
+          value={modeMapping}
+          onChange={(e) => setModeMapping(e.target.value)}
+          placeholder="Light = brand-a&#10;Dark = brand-b"
+          rows={2}
+          style={{
+            ...inputStyle,
+            resize: 'vertical',
+            fontFamily: 'monospace',
+          }}
+        />
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          One "Figma mode = brand folder" per line. Unmapped modes are pushed to a brand folder with the mode's name.
+        </span>
+      </div>
+
       <div style={{ display: 'flex', gap: '8px', marginTop: '8px', flexWrap: 'wrap' }}>
         <button
           onClick={handleTest}
@@ -409,9 +903,19 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
               setRepo('');
               setBranch('main');
               setTokenPaths('tokens/**/*.json');
+              setFallbackTokenFile('');
+              setShadowTokenFile('');
+              setPruneMode('off');
+              setFailOnUnresolvedReferences(false);
               setTargetCollection('');
               setTargetMode('');
               setModeStrategy('auto');
+              setModeMapping('');
+              setTokenFormat('style-dictionary');
+              setReferenceStyle('path');
+              setCodeSyntax({});
+              setBaseFontSize('');
+              setColorFormat('hex');
               onSave({ github: undefined });
             }
           }}
@@ -424,6 +928,71 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({ settings, onSave, onTest, isL
   );
 };
 
+// How each host names its credentials, repositories and reviewers
+const PROVIDER_FIELDS: {
+  [provider in GitProviderType]: {
+    tokenLabel: string;
+    tokenPlaceholder: string;
+    tokenHelp: string;
+    tokenUrl: string;
+    repoUrlPlaceholder: string;
+    repoUrlHelp: string;
+    ownerLabel: string;
+    repoLabel: string;
+    reviewersPlaceholder: string;
+    reviewersHelp: string;
+  };
+} = {
+  github: {
+    tokenLabel: 'Personal Access Token',
+    tokenPlaceholder: 'ghp_xxxxxxxxxxxx',
+    tokenHelp: "Requires 'repo' scope.",
+    tokenUrl: 'https://github.com/settings/tokens',
+    repoUrlPlaceholder: 'https://github.com/owner/repo or owner/repo',
+    repoUrlHelp: 'GitHub or GitHub Enterprise Server repository URL, or owner/repo format',
+    ownerLabel: 'Owner',
+    repoLabel: 'Repository',
+    reviewersPlaceholder: 'octocat, hubot',
+    reviewersHelp: 'GitHub usernames',
+  },
+  gitlab: {
+    tokenLabel: 'Access Token',
+    tokenPlaceholder: 'glpat-xxxxxxxxxxxx',
+    tokenHelp: "Personal, project or group access token with 'api' scope.",
+    tokenUrl: 'https://gitlab.com/-/user_settings/personal_access_tokens',
+    repoUrlPlaceholder: 'https://gitlab.com/group/project',
+    repoUrlHelp: 'GitLab project URL, including any subgroups',
+    ownerLabel: 'Group',
+    repoLabel: 'Project',
+    reviewersPlaceholder: '1234567, 7654321',
+    reviewersHelp: 'GitLab user IDs',
+  },
+  bitbucket: {
+    tokenLabel: 'App Password',
+    tokenPlaceholder: 'xxxxxxxxxxxxxxxxxxxx',
+    tokenHelp: 'Needs Repositories (write) and Pull requests (write) permissions.',
+    tokenUrl: 'https://bitbucket.org/account/settings/app-passwords/',
+    repoUrlPlaceholder: 'https://bitbucket.org/workspace/repo',
+    repoUrlHelp: 'Bitbucket repository URL',
+    ownerLabel: 'Workspace',
+    repoLabel: 'Repository',
+    reviewersPlaceholder: '557058:xxxxxxxx, {user-uuid}',
+    reviewersHelp: 'Bitbucket account IDs or UUIDs',
+  },
+  'azure-devops': {
+    tokenLabel: 'Personal Access Token',
+    tokenPlaceholder: 'xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx',
+    tokenHelp: 'Needs the Code (Read & Write) scope.',
+    tokenUrl: 'https://dev.azure.com/_usersSettings/tokens',
+    repoUrlPlaceholder: 'https://dev.azure.com/organization/project/_git/repo',
+    repoUrlHelp: 'Azure DevOps repository URL',
+    ownerLabel: 'Organization',
+    repoLabel: 'Repository',
+    reviewersPlaceholder: 'identity-guid, identity-guid',
+    reviewersHelp: 'Azure DevOps identity IDs',
+  },
+};
+
 const inputStyle: React.CSSProperties = {
   padding: '4px 8px',
   fontSize: '11px',
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { TokenConflict, ConflictResolution, RepositoryConfig } from '../../shared/types';
+import { getChangeRequestName } from '../../shared/git-providers';
+import ColorSwatch from './ColorSwatch';
+
+interface ConflictPanelProps {
+  conflicts: TokenConflict[];
+  config?: RepositoryConfig;
+  onResolve: (resolutions: ConflictResolution[]) => void;
+  onDismiss: () => void;
+  isSyncing: boolean;
+}
+
+type Choice = ConflictResolution['choice'];
+
+const formatValue = (value: any): string => {
+  if (value === undefined) {
+    return '(deleted)';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const ConflictPanel: React.FC<ConflictPanelProps> = ({ conflicts, config, onResolve, onDismiss, isSyncing }) => {
+  const [choices, setChoices] = useState<{ [key: string]: Choice }>({});
+  const [edits, setEdits] = useState<{ [key: string]: string }>({});
+
+  useEffect(() => {
+    // Default to keeping the Figma value
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.key, 'figma' as Choice])));
+    setEdits(Object.fromEntries(conflicts.map((c) => [c.key, formatValue(c.ours)])));
+  }, [conflicts]);
+
+  const handleApply = () => {
+    const resolutions: ConflictResolution[] = conflicts.map((conflict) => ({
+      conflict,
+      choice: choices[conflict.key] || 'figma',
+      ...(choices[conflict.key] === 'edit' ? { value: edits[conflict.key] } : {}),
+    }));
+    onResolve(resolutions);
+  };
+
+  const renderValue = (label: string, value: any, isColor: boolean) => (
+    <div style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+      {label}:{' '}
+      <span style={{ fontFamily: 'monospace', color: 'var(--figma-color-text)' }}>
+        {isColor && <ColorSwatch value={value} />}
+        {formatValue(value)}
+      </span>
+    </div>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <h3 style={{ margin: 0, fontSize: '12px', fontWeight: 600 }}>Conflicts ({conflicts.length})</h3>
+      <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+        These tokens changed in both Figma and the repository since the last sync
+      </span>
+
+      {conflicts.map((conflict) => {
+        const isColor = conflict.type === 'COLOR';
+        const choice = choices[conflict.key] || 'figma';
+
+        return (
+          <div
+            key={conflict.key}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '4px',
+              padding: '8px',
+              border: '1px solid var(--figma-color-border)',
+              borderRadius: '2px',
+            }}
+          >
+            <span style={{ fontSize: '11px', fontWeight: 500, fontFamily: 'monospace' }}>{conflict.key}</span>
+            {renderValue('Repository', conflict.theirs, isColor)}
+            {renderValue('Figma', conflict.ours, isColor)}
+            {renderValue('Last synced', conflict.base, isColor)}
+
+            <select
+              value={choice}
+              onChange={(e) => setChoices({ ...choices, [conflict.key]: e.target.value as Choice })}
+              style={inputStyle}
+            >
+              <option value="figma">Keep Figma</option>
+              <option value="repository">Keep repository</option>
+              <option value="edit">Edit</option>
+            </select>
+
+            {choice === 'edit' && (
+              <input
+                type="text"
+                value={edits[conflict.key] || ''}
+                onChange={(e) => setEdits({ ...edits, [conflict.key]: e.target.value })}
+                placeholder="#ff0000 or {Collection/variable/path}"
+                style={{ ...inputStyle, fontFamily: 'monospace' }}
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          onClick={handleApply}
+          disabled={isSyncing}
+          style={{
+            ...buttonStyle,
+            flex: 1,
+            background: 'var(--figma-color-bg-brand)',
+            color: 'white',
+            opacity: isSyncing ? 0.5 : 1,
+          }}
+        >
+          Apply and sync
+        </button>
+        <button onClick={onDismiss} disabled={isSyncing} style={buttonStyle}>
+          Dismiss
+        </button>
+      </div>
+      <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+        Applies the chosen values, pulls from the repository and opens a {getChangeRequestName(config)} with the Figma side
+      </span>
+    </div>
+  );
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  fontSize: '11px',
+  border: '1px solid var(--figma-color-border)',
+  borderRadius: '2px',
+  background: 'var(--figma-color-bg)',
+  color: 'var(--figma-color-text)',
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '11px',
+  fontWeight: 500,
+  border: '1px solid var(--figma-color-border)',
+  borderRadius: '2px',
+  background: 'var(--figma-color-bg)',
+  color: 'var(--figma-color-text)',
+  cursor: 'pointer',
+};
+
+export default ConflictPanel;
@@ -3,9 +3,10 @@ import React, { useState, useEffect } from 'react';
 interface GitHubAuthProps {
   onTokenReceived: (token: string) => void;
   isLoading: boolean;
+  webBaseUrl?: string; // GitHub Enterprise Server URL (default github.com)
 }
 
-const GitHubAuth: React.FC<GitHubAuthProps> = ({ onTokenReceived, isLoading }) => {
+const GitHubAuth: React.FC<GitHubAuthProps> = ({ onTokenReceived, isLoading, webBaseUrl }) => {
   const [userCode, setUserCode] = useState<string>('');
   const [verificationUri, setVerificationUri] = useState<string>('');
   const [isPolling, setIsPolling] = useState(false);
@@ -16,6 +17,7 @@ const GitHubAuth: React.FC<GitHubAuthProps> = ({ onTokenReceived, isLoading }) =
     parent.postMessage({
       pluginMessage: {
         type: 'START_OAUTH_FLOW',
+        webBaseUrl,
       },
     }, '*');
   };
@@ -36,6 +38,7 @@ const GitHubAuth: React.FC<GitHubAuthProps> = ({ onTokenReceived, isLoading }) =
               type: 'POLL_OAUTH_TOKEN',
               deviceCode,
               interval,
+              webBaseUrl,
             },
           }, '*');
           break;
@@ -54,7 +57,7 @@ const GitHubAuth: React.FC<GitHubAuthProps> = ({ onTokenReceived, isLoading }) =
 
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, [onTokenReceived]);
+  }, [onTokenReceived, webBaseUrl]);
 
   if (isPolling) {
     return (
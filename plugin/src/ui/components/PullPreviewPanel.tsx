@@ -0,0 +1,162 @@
+import React from 'react';
+import { PullPlan, PlannedVariableChange } from '../../shared/types';
+import ColorSwatch from './ColorSwatch';
+
+interface PullPreviewPanelProps {
+  plan: PullPlan;
+  onApprove: () => void;
+  onCancel: () => void;
+  isSyncing: boolean;
+}
+
+const actionLabels: { [action in PlannedVariableChange['action']]: string } = {
+  create: 'Create',
+  update: 'Update',
+  retype: 'Retype',
+  rename: 'Rename',
+  delete: 'Delete',
+  deprecate: 'Deprecate',
+};
+
+const formatValue = (value: any): string => {
+  if (value === undefined) {
+    return '(none)';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+const PullPreviewPanel: React.FC<PullPreviewPanelProps> = ({ plan, onApprove, onCancel, isSyncing }) => {
+  const hasChanges =
+    plan.changes.length > 0 || plan.collectionsToCreate.length > 0 || plan.modesToCreate.length > 0;
+
+  const renderValue = (value: any, type?: string) => (
+    <span style={{ fontFamily: 'monospace' }}>
+      {type === 'COLOR' && <ColorSwatch value={value} />}
+      {formatValue(value)}
+    </span>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <h3 style={{ margin: 0, fontSize: '12px', fontWeight: 600 }}>Pull Preview</h3>
+
+      {!hasChanges && (
+        <span style={{ fontSize: '11px' }}>Figma is already up to date with the repository</span>
+      )}
+
+      {plan.collectionsToCreate.length > 0 && (
+        <div style={{ fontSize: '11px' }}>
+          <strong>New collections:</strong> {plan.collectionsToCreate.join(', ')}
+        </div>
+      )}
+
+      {plan.modesToCreate.length > 0 && (
+        <div style={{ fontSize: '11px' }}>
+          <strong>New modes:</strong> {plan.modesToCreate.map((m) => `${m.collection} / ${m.mode}`).join(', ')}
+        </div>
+      )}
+
+      {plan.changes.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '4px',
+            maxHeight: '240px',
+            overflowY: 'auto',
+            padding: '8px',
+            border: '1px solid var(--figma-color-border)',
+            borderRadius: '2px',
+          }}
+        >
+          {plan.changes.map((change) => (
+            <div key={`${change.action}:${change.key}`} style={{ fontSize: '10px' }}>
+              <div>
+                <strong>{actionLabels[change.action]}</strong>{' '}
+                <span style={{ fontFamily: 'monospace' }}>{change.key}</span>
+                {change.action === 'retype' && (
+                  <span style={{ color: 'var(--figma-color-text-secondary)' }}>
+                    {' '}({change.oldType} → {change.newType}, recreates the variable)
+                  </span>
+                )}
+                {change.usages && (
+                  <span
+                    style={{
+                      color: change.usages.layers + change.usages.styles > 0
+                        ? 'var(--figma-color-text-danger)'
+                        : 'var(--figma-color-text-secondary)',
+                    }}
+                  >
+                    {' '}(used by {change.usages.layers} layer(s), {change.usages.styles} style(s))
+                  </span>
+                )}
+              </div>
+              <div style={{ color: 'var(--figma-color-text-secondary)' }}>
+                {change.action === 'rename' ? (
+                  <span>
+                    from <span style={{ fontFamily: 'monospace' }}>{change.oldKey}</span>, bindings are kept
+                  </span>
+                ) : change.action === 'delete' || change.action === 'deprecate' ? (
+                  renderValue(change.oldValue, change.oldType)
+                ) : (
+                  <>
+                    {change.action !== 'create' && (
+                      <>
+                        {renderValue(change.oldValue, change.oldType)} →{' '}
+                      </>
+                    )}
+                    {renderValue(change.newValue, change.newType)}
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plan.keptInFigma.length > 0 && (
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+          {plan.keptInFigma.length} Figma change(s) made since the last sync will be kept
+        </span>
+      )}
+
+      {plan.conflicts.length > 0 && (
+        <span style={{ fontSize: '10px', color: 'var(--figma-color-text-danger)' }}>
+          {plan.conflicts.length} conflict(s) will keep their Figma value
+        </span>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          onClick={onApprove}
+          disabled={isSyncing || !hasChanges}
+          style={{
+            ...buttonStyle,
+            flex: 1,
+            background: 'var(--figma-color-bg-brand)',
+            color: 'white',
+            opacity: isSyncing || !hasChanges ? 0.5 : 1,
+          }}
+        >
+          Apply pull
+        </button>
+        <button onClick={onCancel} disabled={isSyncing} style={buttonStyle}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '11px',
+  fontWeight: 500,
+  border: '1px solid var(--figma-color-border)',
+  borderRadius: '2px',
+  background: 'var(--figma-color-bg)',
+  color: 'var(--figma-color-text)',
+  cursor: 'pointer',
+};
+
+export default PullPreviewPanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { UnresolvedReference } from '../../shared/types';
+
+interface ReferencePanelProps {
+  references: UnresolvedReference[];
+  onDismiss: () => void;
+}
+
+const ReferencePanel: React.FC<ReferencePanelProps> = ({ references, onDismiss }) => {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <h3 style={{ margin: 0, fontSize: '12px', fontWeight: 600 }}>Unresolved References ({references.length})</h3>
+      <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+        These tokens reference tokens that don't exist, or reference each other in a cycle
+      </span>
+
+      {references.map((reference, i) => (
+        <div
+          key={`${reference.file}:${reference.tokenPath}:${i}`}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '4px',
+            padding: '8px',
+            border: '1px solid var(--figma-color-border)',
+            borderRadius: '2px',
+          }}
+        >
+          <span style={{ fontSize: '11px', fontWeight: 500, fontFamily: 'monospace' }}>{reference.tokenPath}</span>
+          <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>{reference.file}</span>
+          <span style={{ fontSize: '10px', fontFamily: 'monospace', color: 'var(--figma-color-text-danger)' }}>
+            {reference.reason === 'circular' && reference.cycle
+              ? `{${reference.reference}} is part of a cycle: ${reference.cycle.join(' → ')}`
+              : `{${reference.reference}} not found`}
+          </span>
+        </div>
+      ))}
+
+      <button onClick={onDismiss} style={buttonStyle}>
+        Dismiss
+      </button>
+    </div>
+  );
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '11px',
+  fontWeight: 500,
+  border: '1px solid var(--figma-color-border)',
+  borderRadius: '2px',
+  background: 'var(--figma-color-bg)',
+  color: 'var(--figma-color-text)',
+  cursor: 'pointer',
+};
+
+export default ReferencePanel;
@@ -1,10 +1,11 @@
 import React from 'react';
-import { PluginSettings, GitHubConfig } from '../../shared/types';
+import { PluginSettings, RepositoryConfig } from '../../shared/types';
+import { getProviderName, getRepositoryConfigError } from '../../shared/git-providers';
 
 // Simple validation function updated for OAuth support
-const validateGitHubConfig = (config: GitHubConfig) => {
+const validateRepositoryConfig = (config: RepositoryConfig) => {
   const hasAuth = Boolean(config.token || config.oauthToken);
-  const hasRepo = Boolean(config.owner && config.repo);
+  const hasRepo = !getRepositoryConfigError(config);
   const hasBranch = Boolean(config.branch);
   const hasTokenPaths = Boolean(config.tokenPaths?.length > 0);
 
@@ -30,14 +31,16 @@ const validateGitHubConfig = (config: GitHubConfig) => {
 
 interface SyncPanelProps {
   settings: PluginSettings;
-  onPull: (config: GitHubConfig) => void;
-  onPush: (config: GitHubConfig) => void;
+  onPull: (config: RepositoryConfig) => void;
+  onPreviewPull: (config: RepositoryConfig) => void;
+  onPush: (config: RepositoryConfig) => void;
   isSyncing: boolean;
 }
 
-const SyncPanel: React.FC<SyncPanelProps> = ({ settings, onPull, onPush, isSyncing }) => {
+const SyncPanel: React.FC<SyncPanelProps> = ({ settings, onPull, onPreviewPull, onPush, isSyncing }) => {
   // Check if GitHub config is valid using the validation utility
-  const isConfigured = settings.github ? validateGitHubConfig(settings.github).valid : false;
+  const isConfigured = settings.github ? validateRepositoryConfig(settings.github).valid : false;
+  const providerName = getProviderName(settings.github);
 
   const handlePull = () => {
     console.log('🔽 Pull button clicked');
@@ -49,6 +52,13 @@ const SyncPanel: React.FC<SyncPanelProps> = ({ settings, onPull, onPush, isSynci
     }
   };
 
+  const handlePreviewPull = () => {
+    console.log('🔍 Preview pull button clicked');
+    if (settings.github) {
+      onPreviewPull(settings.github);
+    }
+  };
+
   const handlePush = () => {
     console.log('🔼 Push button clicked');
     if (settings.github) {
@@ -65,19 +75,32 @@ const SyncPanel: React.FC<SyncPanelProps> = ({ settings, onPull, onPush, isSynci
 
       <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
         <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
-          <button
-            onClick={handlePull}
-            disabled={!isConfigured || isSyncing}
-            style={{
-              ...buttonStyle,
-              background: isConfigured ? 'var(--figma-color-bg-brand)' : 'var(--figma-color-bg)',
-              opacity: !isConfigured || isSyncing ? 0.5 : 1,
-            }}
-          >
-            Pull from GitHub → Figma
-          </button>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              onClick={handlePull}
+              disabled={!isConfigured || isSyncing}
+              style={{
+                ...buttonStyle,
+                flex: 1,
+                background: isConfigured ? 'var(--figma-color-bg-brand)' : 'var(--figma-color-bg)',
+                opacity: !isConfigured || isSyncing ? 0.5 : 1,
+              }}
+            >
+              Pull from {providerName} → Figma
+            </button>
+            <button
+              onClick={handlePreviewPull}
+              disabled={!isConfigured || isSyncing}
+              style={{
+                ...buttonStyle,
+                opacity: !isConfigured || isSyncing ? 0.5 : 1,
+              }}
+            >
+              Preview
+            </button>
+          </div>
           <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
-            Fetch latest tokens and update Figma variables
+            Fetch latest tokens and update Figma variables. Preview shows the changes first.
           </span>
         </div>
 
@@ -90,7 +113,7 @@ const SyncPanel: React.FC<SyncPanelProps> = ({ settings, onPull, onPush, isSynci
               opacity: !isConfigured || isSyncing ? 0.5 : 1,
             }}
           >
-            Push to GitHub ← Figma
+            Push to {providerName} ← Figma
           </button>
           <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
             Export Figma variables and create Pull Request
@@ -108,7 +131,7 @@ const SyncPanel: React.FC<SyncPanelProps> = ({ settings, onPull, onPush, isSynci
             borderRadius: '2px',
           }}
         >
-          Configure GitHub settings above to enable sync
+          Configure repository settings above to enable sync
         </div>
       )}
     </div>
@@ -0,0 +1,62 @@
+import React from 'react';
+import { TokenValidationError } from '../../shared/types';
+
+interface ValidationPanelProps {
+  errors: TokenValidationError[];
+  onDismiss: () => void;
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ errors, onDismiss }) => {
+  // Group errors by file so each file is listed once
+  const files = Array.from(new Set(errors.map((e) => e.file)));
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <h3 style={{ margin: 0, fontSize: '12px', fontWeight: 600 }}>Invalid Tokens ({errors.length})</h3>
+      <span style={{ fontSize: '10px', color: 'var(--figma-color-text-secondary)' }}>
+        Fix these tokens in the repository and pull again. Nothing was imported.
+      </span>
+
+      {files.map((file) => (
+        <div
+          key={file}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '4px',
+            padding: '8px',
+            border: '1px solid var(--figma-color-border)',
+            borderRadius: '2px',
+          }}
+        >
+          <span style={{ fontSize: '11px', fontWeight: 500 }}>{file}</span>
+          {errors
+            .filter((e) => e.file === file)
+            .map((e, i) => (
+              <div key={`${e.pointer}:${i}`} style={{ fontSize: '10px' }}>
+                <span style={{ fontFamily: 'monospace' }}>{e.pointer || '/'}</span>
+                <span style={{ color: 'var(--figma-color-text-danger)' }}> {e.message}</span>
+              </div>
+            ))}
+        </div>
+      ))}
+
+      <button onClick={onDismiss} style={buttonStyle}>
+        Dismiss
+      </button>
+    </div>
+  );
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '11px',
+  fontWeight: 500,
+  border: '1px solid var(--figma-color-border)',
+  borderRadius: '2px',
+  background: 'var(--figma-color-bg)',
+  color: 'var(--figma-color-text)',
+  cursor: 'pointer',
+};
+
+export default ValidationPanel;